@@ -0,0 +1,74 @@
+/**
+ * SecureShare - Download Service Worker
+ * Serves decrypted files as ordinary downloads on browsers without the File System Access API.
+ * The page announces a download over a MessageChannel, then opens its URL in a hidden frame;
+ * the worker answers with a stream that asks the page for one chunk at a time, so the file goes
+ * to disk as it decrypts instead of being held in memory. Every other request passes through untouched.
+ */
+
+const DOWNLOAD_PATH = "/__secureshare-download/";
+
+/** Announced downloads whose URL has not been opened yet, by ID. */
+const downloads = new Map();
+
+/**
+ * Encodes a file name for the filename* parameter of Content-Disposition (RFC 5987).
+ * @param {string} filename The file name.
+ */
+const encodeFilename = (filename) =>
+  encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "secureshare-download") return;
+  const { id, filename, size } = event.data;
+  const port = event.ports[0];
+  let delivered = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data.type === "chunk") controller.enqueue(data.chunk);
+        if (data.type === "close") controller.close();
+        if (data.type === "abort") controller.error(new Error(data.reason));
+        delivered?.();
+      };
+    },
+    // Ask for the next chunk only once the browser has taken the last one.
+    pull() {
+      port.postMessage({ type: "pull" });
+      return new Promise((resolve) => { delivered = resolve; });
+    },
+    cancel() {
+      port.postMessage({ type: "cancel" });
+    },
+  });
+
+  downloads.set(id, { stream, filename, size });
+  port.postMessage({ type: "ready" });
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(DOWNLOAD_PATH)) return;
+
+  const id = url.pathname.slice(DOWNLOAD_PATH.length);
+  const download = downloads.get(id);
+  if (!download) {
+    event.respondWith(new Response("This download is no longer available.", { status: 404 }));
+    return;
+  }
+  downloads.delete(id);
+
+  event.respondWith(new Response(download.stream, {
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Length": String(download.size),
+      "Content-Disposition": `attachment; filename="download"; filename*=UTF-8''${encodeFilename(download.filename)}`,
+      "X-Content-Type-Options": "nosniff",
+    },
+  }));
+});
@@ -5,6 +5,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import UploadPage from "./pages/UploadPage";
 import DownloadPage from "./pages/DownloadPage";
+import ManagePage from "./pages/ManagePage";
+import IdentityPage from "./pages/IdentityPage";
+import RequestsPage from "./pages/RequestsPage";
 import NotFound from "./pages/NotFound";
 import { ThemeProvider } from "./components/ThemeProvider";
 
@@ -20,6 +23,10 @@ const App = () => (
           <Routes>
             <Route path="/" element={<UploadPage />} />
             <Route path="/d/:fileId" element={<DownloadPage />} />
+            <Route path="/m/:fileId" element={<ManagePage />} />
+            <Route path="/keys" element={<IdentityPage />} />
+            <Route path="/requests" element={<RequestsPage />} />
+            <Route path="/r/:requestId" element={<UploadPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
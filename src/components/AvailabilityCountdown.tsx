@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { CalendarClock } from "lucide-react";
+
+interface AvailabilityCountdownProps {
+  /** When the share opens. */
+  availableFrom: Date;
+  /** Called every second once the share should be open, until the page has reloaded it. */
+  onAvailable: () => void;
+}
+
+/**
+ * Splits a span of time into days, hours, minutes and seconds, leaving out leading zero units.
+ * @param {number} ms The span in milliseconds.
+ */
+function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const parts: [number, string][] = [
+    [Math.floor(total / 86400), "d"],
+    [Math.floor(total / 3600) % 24, "h"],
+    [Math.floor(total / 60) % 60, "m"],
+    [total % 60, "s"],
+  ];
+  const first = parts.findIndex(([value]) => value > 0);
+  return parts.slice(first === -1 ? parts.length - 1 : first).map(([value, unit]) => `${value}${unit}`).join(" ");
+}
+
+/** Counts down to a scheduled share opening. The server decides when it opens; this only shows when to expect it. */
+export function AvailabilityCountdown({ availableFrom, onAvailable }: AvailabilityCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = availableFrom.getTime() - now;
+
+  // Checked on the tick rather than on mount, so a clock running ahead of the server's asks at most once a second.
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= availableFrom.getTime()) onAvailable();
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [availableFrom, onAvailable]);
+
+  return (
+    <div className="flex flex-col items-center justify-center space-y-3 p-6 text-center">
+      <CalendarClock className="h-12 w-12 text-primary" />
+      <p className="font-semibold">This file is not available yet</p>
+      <p className="font-mono text-3xl font-bold text-primary">{formatRemaining(remaining)}</p>
+      <p className="text-sm text-muted-foreground">The link opens on {availableFrom.toLocaleString()}.</p>
+    </div>
+  );
+}
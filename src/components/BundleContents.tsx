@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Archive, Download, File as FileIcon, Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { bundleEntryBlob, bundleToZip, verifyBundleEntry } from "@/lib/bundle";
+import type { BundleEntry } from "@/lib/crypto";
+import { saveBlob } from "@/lib/download";
+
+interface BundleContentsProps {
+  /** The bundle's manifest, from the decrypted file details. */
+  manifest: BundleEntry[];
+  /** The bundle's name, used for the zip archive. */
+  name: string;
+  /** The decrypted bundle. Until it is available, the entries are listed without download buttons. */
+  bundle: Blob | null;
+}
+
+/** Lists the files in a multi-file share and lets the recipient save one of them or all as a zip. */
+export function BundleContents({ manifest, name, bundle }: BundleContentsProps) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const saveEntry = async (entry: BundleEntry) => {
+    if (!bundle) return;
+    setBusy(entry.path);
+    try {
+      if (!(await verifyBundleEntry(bundle, entry))) {
+        toast({
+          title: "File failed its integrity check",
+          description: `${entry.path} does not match the hash the sender recorded.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      saveBlob(bundleEntryBlob(bundle, entry), entry.path.split("/").pop() ?? entry.path);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveAll = async () => {
+    if (!bundle) return;
+    setBusy("*");
+    try {
+      const results = await Promise.all(manifest.map(entry => verifyBundleEntry(bundle, entry)));
+      const failed = manifest.filter((_, i) => !results[i]);
+      if (failed.length > 0) {
+        toast({
+          title: "Some files failed their integrity check",
+          description: failed.map(entry => entry.path).join(", "),
+          variant: "destructive",
+        });
+        return;
+      }
+      saveBlob(await bundleToZip(bundle, manifest), `${name}.zip`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-64 space-y-2 overflow-y-auto">
+        {manifest.map(entry => (
+          <div key={entry.path} className="flex items-center justify-between gap-3 rounded-md border border-border bg-background/50 p-3">
+            <div className="flex min-w-0 items-center gap-3">
+              <FileIcon className="h-5 w-5 shrink-0 text-primary" />
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold">{entry.path}</p>
+                <p className="text-xs text-muted-foreground">{(entry.size / 1024 / 1024).toFixed(2)} MB</p>
+              </div>
+            </div>
+            {bundle && (
+              <Button variant="ghost" size="icon" disabled={busy !== null} onClick={() => saveEntry(entry)}>
+                {busy === entry.path ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      {bundle ? (
+        <Button onClick={saveAll} disabled={busy !== null} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
+          {busy === "*" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />} Download All (.zip)
+        </Button>
+      ) : (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <ShieldAlert className="mr-2 h-4 w-4" /> Each file is checked against the sender's SHA-256 hash before it is saved.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, startOfDay } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EXPIRY_UNIT_SECONDS, MIN_EXPIRY_SECONDS, type ExpiryUnit, type ShareExpiry } from "@/lib/share-policy";
+
+interface ExpiryPickerProps {
+  id: string;
+  /** The longest the server lets a share be kept, in seconds. */
+  maxSeconds: number;
+  /** When an existing share was uploaded, in milliseconds, which its retention counts from. A new share's counts from when it is published. */
+  since?: number;
+  /** Receives the chosen expiry, or null while the choice is incomplete or out of range. */
+  onChange: (expiry: ShareExpiry | null) => void;
+}
+
+/** Lets the sender give a share a lifetime from minutes up to the server's maximum, or pick the date and time it ends. */
+export function ExpiryPicker({ id, maxSeconds, since, onChange }: ExpiryPickerProps) {
+  const [kind, setKind] = useState<"duration" | "date">("duration");
+  const [amount, setAmount] = useState("24");
+  const [unit, setUnit] = useState<ExpiryUnit>("hours");
+  const [day, setDay] = useState<Date | undefined>();
+  const [time, setTime] = useState("23:59");
+
+  const { expiry, problem } = useMemo((): { expiry: ShareExpiry | null; problem: string } => {
+    // Read afresh on every change, so a page left open does not judge choices against when it was loaded.
+    const now = Date.now();
+    const latest = (since ?? now) + maxSeconds * 1000;
+    const tooLate = `That is later than the server allows. Shares can be kept until ${format(latest, "PPp")} at most.`;
+    if (kind === "duration") {
+      const seconds = Math.round(Number(amount) * EXPIRY_UNIT_SECONDS[unit]);
+      if (!Number.isFinite(seconds) || seconds < MIN_EXPIRY_SECONDS) {
+        return { expiry: null, problem: `Choose a lifetime of at least ${MIN_EXPIRY_SECONDS / 60} minutes.` };
+      }
+      // A new share's lifetime and its retention both start when it is published, so only the length matters.
+      if (since === undefined ? seconds > maxSeconds : now + seconds * 1000 > latest) return { expiry: null, problem: tooLate };
+      return { expiry: { seconds }, problem: "" };
+    }
+
+    if (!day || !time) return { expiry: null, problem: "Choose a date and time." };
+    const [hours, minutes] = time.split(":").map(Number);
+    const at = new Date(day);
+    at.setHours(hours, minutes, 0, 0);
+    if (at.getTime() < now + MIN_EXPIRY_SECONDS * 1000) {
+      return { expiry: null, problem: `Choose a time at least ${MIN_EXPIRY_SECONDS / 60} minutes from now.` };
+    }
+    if (at.getTime() > latest) return { expiry: null, problem: tooLate };
+    return { expiry: { at: at.toISOString() }, problem: "" };
+  }, [kind, amount, unit, day, time, maxSeconds, since]);
+
+  useEffect(() => {
+    onChange(expiry);
+  }, [expiry, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <Select value={kind} onValueChange={(value) => setKind(value as "duration" | "date")}>
+        <SelectTrigger id={id}><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="duration">After a set time</SelectItem>
+          <SelectItem value="date">On a date</SelectItem>
+        </SelectContent>
+      </Select>
+      {kind === "duration" ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            aria-label="Lifetime"
+          />
+          <Select value={unit} onValueChange={(value) => setUnit(value as ExpiryUnit)}>
+            <SelectTrigger aria-label="Unit"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="minutes">Minutes</SelectItem>
+              <SelectItem value="hours">Hours</SelectItem>
+              <SelectItem value="days">Days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="justify-start font-normal">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {day ? format(day, "PPP") : <span className="text-muted-foreground">Pick a date</span>}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={day}
+                onSelect={setDay}
+                disabled={[{ before: startOfDay(new Date()) }, { after: new Date((since ?? Date.now()) + maxSeconds * 1000) }]}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} aria-label="Time" className="w-32" />
+        </div>
+      )}
+      {problem && <p className="text-xs text-destructive">{problem}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { CheckCircle, Copy, Fingerprint, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+interface FileHashProps {
+  /** The hex-encoded SHA-256 of the file's plaintext. */
+  hash: string;
+  /** Whether to offer a field for checking the hash against the one the other side reads out. */
+  comparable?: boolean;
+}
+
+/**
+ * Normalizes a hash as typed or pasted by a person, so spaces, colons and letter case do not matter.
+ * @param {string} value The hash as entered.
+ */
+const normalizeHash = (value: string) => value.toLowerCase().replace(/[^0-9a-f]/g, "");
+
+/** Shows a file's SHA-256 in short groups that are easy to read out, optionally with a field to compare it. */
+export function FileHash({ hash, comparable = false }: FileHashProps) {
+  const { toast } = useToast();
+  const [expected, setExpected] = useState("");
+
+  const entered = normalizeHash(expected);
+
+  const copyHash = async () => {
+    try {
+      await navigator.clipboard.writeText(hash);
+      toast({ title: "Hash copied to clipboard!" });
+    } catch (err) {
+      console.error("Failed to copy text: ", err);
+      toast({ title: "Failed to copy", description: "Could not copy text to clipboard.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-border bg-background/50 p-3 text-left">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center"><Fingerprint className="mr-2 h-4 w-4" /> File SHA-256</Label>
+        <Button variant="ghost" size="icon" onClick={copyHash} title="Copy hash">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="break-words font-mono text-xs text-muted-foreground">{hash.match(/.{1,8}/g).join(" ")}</p>
+      {comparable && (
+        <div className="space-y-1">
+          <Input value={expected} onChange={(e) => setExpected(e.target.value)} placeholder="Paste or type the sender's hash to compare..." className="font-mono text-xs" />
+          {entered && (entered === hash
+            ? <p className="flex items-center text-sm font-medium text-success"><CheckCircle className="mr-2 h-4 w-4" /> The hashes match. This is the file the sender shared.</p>
+            : entered.length < hash.length && hash.startsWith(entered)
+              ? <p className="text-xs text-muted-foreground">Matches so far...</p>
+              : <p className="flex items-center text-sm font-medium text-destructive"><XCircle className="mr-2 h-4 w-4" /> The hashes differ. This is not the file the sender hashed.</p>)}
+        </div>
+      )}
+    </div>
+  );
+}
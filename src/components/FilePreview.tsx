@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { markdownDocument, MAX_PREVIEW_TEXT_BYTES, type PreviewKind } from "@/lib/preview";
+
+interface FilePreviewProps {
+  /** The decrypted file. */
+  blob: Blob;
+  /** How to show it, from previewKind. */
+  kind: PreviewKind;
+  /** The file's MIME type, for images and media. */
+  type: string;
+  name: string;
+  /** Whether the sender asked for the file to be viewed only. Hides the viewers' own save controls where possible. */
+  viewOnly: boolean;
+}
+
+/** Shows a decrypted file in the page. Object URLs are revoked as soon as the preview goes away. */
+export function FilePreview({ blob, kind, type, name, viewOnly }: FilePreviewProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [html, setHtml] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (kind === "text" || kind === "markdown") {
+      let cancelled = false;
+      blob.slice(0, MAX_PREVIEW_TEXT_BYTES).text()
+        .then(async (content) => {
+          const rendered = kind === "markdown" ? await markdownDocument(content) : null;
+          if (cancelled) return;
+          setText(content);
+          setHtml(rendered);
+        })
+        .catch(console.error);
+      return () => { cancelled = true; };
+    }
+
+    // The type is set here rather than trusted from the blob, so a PDF can only ever open as a PDF.
+    const objectUrl = URL.createObjectURL(new Blob([blob], { type: kind === "pdf" ? "application/pdf" : type }));
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [blob, kind, type]);
+
+  const preventSave = viewOnly ? (e: React.SyntheticEvent) => e.preventDefault() : undefined;
+  const truncated = blob.size > MAX_PREVIEW_TEXT_BYTES;
+
+  if ((kind === "text" && text === null) || (kind === "markdown" && html === null) || (kind !== "text" && kind !== "markdown" && !url)) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-hidden rounded-md border border-border bg-background/50" onContextMenu={preventSave}>
+        {kind === "image" && (
+          <img src={url} alt={name} draggable={!viewOnly} className="mx-auto max-h-[32rem] w-auto" />
+        )}
+        {kind === "pdf" && (
+          // Chrome's viewer hides its toolbar, and with it the save button, when asked to in the fragment.
+          <iframe src={viewOnly ? `${url}#toolbar=0` : url} title={name} className="h-[32rem] w-full" />
+        )}
+        {kind === "audio" && (
+          <audio src={url} controls controlsList={viewOnly ? "nodownload" : undefined} className="w-full p-2" />
+        )}
+        {kind === "video" && (
+          <video src={url} controls controlsList={viewOnly ? "nodownload" : undefined} className="max-h-[32rem] w-full" />
+        )}
+        {kind === "text" && (
+          <pre className="max-h-[32rem] overflow-auto whitespace-pre-wrap break-words p-3 font-mono text-xs">{text}</pre>
+        )}
+        {kind === "markdown" && (
+          <iframe sandbox="" srcDoc={html} title={name} className="h-[32rem] w-full bg-background" />
+        )}
+      </div>
+      {truncated && (kind === "text" || kind === "markdown") && (
+        <p className="text-xs text-muted-foreground">Only the first {MAX_PREVIEW_TEXT_BYTES / 1024 / 1024} MB is shown.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Ban, Copy, ExternalLink, Inbox, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { closeFileRequest, fetchFileRequestInbox, fileRequestUrl, type FileRequestInbox } from "@/lib/file-requests";
+import { deleteRequestKey, type RequestKey } from "@/lib/keystore";
+
+interface FileRequestCardProps {
+  /** The request, as stored in this browser's keystore. */
+  requestKey: RequestKey;
+  /** Called once the request's key has been deleted from this browser. */
+  onForget: (requestId: string) => void;
+}
+
+/** Shows one of the requester's file requests: its link, its inbox and the actions on it. */
+export function FileRequestCard({ requestKey, onForget }: FileRequestCardProps) {
+  const { toast } = useToast();
+  const [inbox, setInbox] = useState<FileRequestInbox | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const link = fileRequestUrl(requestKey.requestId, requestKey.publicKey);
+  const expiresAt = inbox?.expires_at ?? requestKey.expiresAt;
+  const isOpen = new Date(expiresAt) > new Date() && (!inbox || inbox.upload_count < inbox.max_uploads);
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      toast({ title: failureTitle, description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshInbox = () => run(async () => setInbox(await fetchFileRequestInbox(requestKey)), "Could not check the inbox");
+
+  const closeRequest = () => run(async () => {
+    const closed = await closeFileRequest(requestKey);
+    setInbox(current => ({ files: current?.files ?? [], ...closed }));
+    toast({ title: "Request closed", description: "It no longer accepts uploads." });
+  }, "Could not close the request");
+
+  const forget = () => run(async () => {
+    await deleteRequestKey(requestKey.requestId);
+    onForget(requestKey.requestId);
+  }, "Could not delete the key");
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Request link copied to clipboard!" });
+    } catch (err) {
+      console.error("Failed to copy text: ", err);
+      toast({ title: "Failed to copy", description: "Could not copy text to clipboard.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border bg-background/50 p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate font-semibold">{requestKey.label || "Untitled request"}</p>
+          <p className="text-xs text-muted-foreground">
+            {isOpen ? `Open until ${new Date(expiresAt).toLocaleString()}` : "Closed"}
+            {inbox && ` · ${inbox.upload_count} of ${inbox.max_uploads} uploads used`}
+          </p>
+          <p className="font-mono text-xs text-muted-foreground">{requestKey.fingerprint}</p>
+        </div>
+        <Button variant="outline" size="icon" onClick={copyLink} title="Copy request link">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {inbox && (
+        inbox.files.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing received yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {inbox.files.map(file => (
+              <div key={file.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {file.size_bucket !== null ? `Up to ${(file.size_bucket / 1024 / 1024).toFixed(2)} MB · ` : ""}
+                  {file.max_downloads === null ? "Unlimited downloads" : `${file.max_downloads - file.download_count} download(s) left`} · expires {new Date(file.expires_at).toLocaleDateString()}
+                </span>
+                <Button variant="ghost" size="sm" asChild>
+                  <a href={`/d/${file.id}`} target="_blank" rel="noreferrer"><ExternalLink className="mr-1 h-4 w-4" /> Open</a>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={refreshInbox} disabled={busy} className="flex-1">
+          {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : inbox ? <RefreshCw className="mr-2 h-4 w-4" /> : <Inbox className="mr-2 h-4 w-4" />}
+          {inbox ? "Refresh" : "Check Inbox"}
+        </Button>
+        {isOpen && (
+          <Button variant="outline" size="sm" onClick={closeRequest} disabled={busy}>
+            <Ban className="mr-2 h-4 w-4" /> Close
+          </Button>
+        )}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={busy} title="Forget this request">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Forget this request?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Its private key is deleted from this browser. Files sent to the request can no longer be opened, here or anywhere else.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={forget}>Forget</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Copy, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+interface SecretSnippetProps {
+  /** The decrypted snippet. */
+  blob: Blob;
+}
+
+/** How many mask characters stand in for a hidden secret, whatever its length. */
+const MASK_LENGTH = 16;
+
+/** Shows a decrypted text snippet, hidden until the recipient reveals it, with a copy button. */
+export function SecretSnippet({ blob }: SecretSnippetProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    blob.text().then((content) => { if (!cancelled) setText(content); }).catch(console.error);
+    return () => { cancelled = true; };
+  }, [blob]);
+
+  const copySecret = async () => {
+    if (text === null) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Secret copied to clipboard!" });
+    } catch (err) {
+      console.error("Failed to copy text: ", err);
+      toast({ title: "Failed to copy", description: "Could not copy text to clipboard.", variant: "destructive" });
+    }
+  };
+
+  if (text === null) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-border bg-background/50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Secret</Label>
+        <div className="flex">
+          <Button variant="ghost" size="icon" onClick={() => setRevealed(current => !current)} title={revealed ? "Hide" : "Reveal"}>
+            {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={copySecret} title="Copy">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {revealed
+        ? <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all font-mono text-sm">{text}</pre>
+        : <p className="select-none font-mono text-sm tracking-widest text-muted-foreground">{"•".repeat(MASK_LENGTH)}</p>}
+    </div>
+  );
+}
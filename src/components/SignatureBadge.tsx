@@ -0,0 +1,45 @@
+import { PenLine, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+/** Where the check of a signed file stands. The envelope signature is checked on load, the ciphertext on download. */
+export type SignatureState = "unverified" | "verified" | "invalid";
+
+interface SignatureBadgeProps {
+  /** The signer's key fingerprint. */
+  fingerprint: string;
+  state: SignatureState;
+}
+
+/** Shows who signed a file and whether the signature holds. A failed check is shown as a prominent warning. */
+export function SignatureBadge({ fingerprint, state }: SignatureBadgeProps) {
+  if (state === "invalid") {
+    return (
+      <div className="flex gap-3 rounded-md border-2 border-destructive bg-destructive/10 p-4 text-destructive">
+        <ShieldAlert className="h-6 w-6 shrink-0" />
+        <div className="space-y-1">
+          <p className="font-bold">Signature check failed</p>
+          <p className="text-sm">
+            This file claims to be signed by <span className="font-mono">{fingerprint}</span>, but the signature does not match.
+            It may have been forged or tampered with. Do not trust it.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1 rounded-md border border-border bg-background/50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center text-sm"><PenLine className="mr-2 h-4 w-4" /> Signed by <span className="ml-1 font-mono">{fingerprint}</span></span>
+        {state === "verified"
+          ? <Badge className="border-transparent bg-success text-success-foreground hover:bg-success/80">Verified</Badge>
+          : <Badge variant="secondary">Unverified</Badge>}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {state === "verified"
+          ? "The file matches its signature. Compare the fingerprint with the sender to be sure it is theirs."
+          : "The signature is valid. The file itself is checked against it when you download it."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * SecureShare - Multi-File Bundles
+ * Packs several files (or a dropped folder) into one Blob that is encrypted like a single file.
+ * The manifest of paths, sizes and SHA-256 hashes travels inside the encrypted file details,
+ * so the server learns neither how many files were sent nor what they are called.
+ */
+
+import { downloadZip } from "client-zip";
+import { sha256Hex, type BundleEntry, type ProgressOptions } from "@/lib/crypto";
+
+/** The MIME type recorded for bundles in the encrypted file details. */
+export const BUNDLE_MIME_TYPE = "application/x-secureshare-bundle";
+
+/** A file to pack, with the path it should be extracted to. */
+export interface BundleInput {
+  path: string;
+  file: File;
+}
+
+/**
+ * Works out the path a dropped file should keep inside the bundle.
+ * Folder drops give paths such as "/photos/a.jpg" or "./photos/a.jpg"; the leading part is dropped.
+ * @param {File} file A file from the dropzone.
+ * @returns {string} The relative path, using "/" as the separator.
+ */
+export function bundlePath(file: File): string {
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+  const segments = path
+    .split(/[\\/]/)
+    .filter(segment => segment !== "" && segment !== "." && segment !== "..");
+  return segments.length > 0 ? segments.join("/") : file.name;
+}
+
+/**
+ * Names the bundle after the folder all files share, or after the number of files.
+ * @param {BundleInput[]} inputs The files being packed.
+ */
+function bundleName(inputs: BundleInput[]): string {
+  const roots = new Set(inputs.map(({ path }) => path.split("/")[0]));
+  const [root] = roots;
+  return roots.size === 1 && inputs.every(({ path }) => path.includes("/")) ? root : `${inputs.length} files`;
+}
+
+/**
+ * Concatenates files into a single bundle and builds its manifest.
+ * Each file is hashed as it is read; duplicate paths get a numeric suffix.
+ * @param {BundleInput[]} inputs The files to pack, with their paths.
+ * @param {ProgressOptions} [options] Progress reporting, in bytes hashed, and cancellation.
+ * @returns {Promise<{ file: File, manifest: BundleEntry[] }>} The bundle and its manifest.
+ */
+export async function createBundle(inputs: BundleInput[], { onProgress, signal }: ProgressOptions = {}): Promise<{ file: File, manifest: BundleEntry[] }> {
+  const totalBytes = inputs.reduce((sum, { file }) => sum + file.size, 0);
+  const usedPaths = new Set<string>();
+  const manifest: BundleEntry[] = [];
+  let offset = 0;
+
+  for (const { path, file } of inputs) {
+    let uniquePath = path;
+    for (let n = 2; usedPaths.has(uniquePath); n++) {
+      uniquePath = path.replace(/(\.[^./]*)?$/, ` (${n})$1`);
+    }
+    usedPaths.add(uniquePath);
+
+    const entryOffset = offset;
+    const sha256 = await sha256Hex(file, {
+      signal,
+      onProgress: (processed) => onProgress?.(entryOffset + processed, totalBytes),
+    });
+    manifest.push({ path: uniquePath, size: file.size, offset, sha256 });
+    offset += file.size;
+  }
+
+  const file = new File(inputs.map(({ file }) => file), bundleName(inputs), { type: BUNDLE_MIME_TYPE });
+  return { file, manifest };
+}
+
+/**
+ * Returns one file from a decrypted bundle.
+ * @param {Blob} bundle The decrypted bundle.
+ * @param {BundleEntry} entry The manifest entry to extract.
+ */
+export function bundleEntryBlob(bundle: Blob, entry: BundleEntry): Blob {
+  return bundle.slice(entry.offset, entry.offset + entry.size);
+}
+
+/**
+ * Checks an extracted file against the hash in the manifest.
+ * @param {Blob} bundle The decrypted bundle.
+ * @param {BundleEntry} entry The manifest entry to check.
+ * @returns {Promise<boolean>} Whether the content matches.
+ */
+export async function verifyBundleEntry(bundle: Blob, entry: BundleEntry): Promise<boolean> {
+  return (await sha256Hex(bundleEntryBlob(bundle, entry))) === entry.sha256;
+}
+
+/**
+ * Repackages a decrypted bundle as a standard zip archive, keeping the folder structure.
+ * @param {Blob} bundle The decrypted bundle.
+ * @param {BundleEntry[]} manifest The bundle's manifest.
+ * @returns {Promise<Blob>} The zip archive.
+ */
+export function bundleToZip(bundle: Blob, manifest: BundleEntry[]): Promise<Blob> {
+  return downloadZip(
+    manifest.map(entry => ({ name: entry.path, input: bundleEntryBlob(bundle, entry) }))
+  ).blob();
+}
@@ -0,0 +1,221 @@
+/**
+ * SecureShare - Crypto Worker Client
+ * Runs the expensive parts of crypto.ts (key derivation and file encryption/decryption) in a
+ * dedicated Web Worker, so the UI stays responsive and can show real byte-level progress.
+ */
+
+import type { BundleInput } from "@/lib/bundle";
+import { decryptFileTo, type BundleEntry, type EncryptedFile, type EncryptOptions, type FileMetadata, type ProgressOptions } from "@/lib/crypto";
+import type { Envelope } from "@/lib/envelope";
+import type { KdfName, KdfParams } from "@/lib/kdf";
+
+// --- Message Protocol ---
+
+/** Settings for encryptFile that can cross the worker boundary. */
+export type WorkerEncryptOptions = Omit<EncryptOptions, keyof ProgressOptions>;
+
+/** The requests the page sends to the worker, each tagged with a call id. */
+export type CryptoWorkerRequest =
+  | { id: number; type: "calibrateKdf"; name: KdfName }
+  | { id: number; type: "createBundle"; inputs: BundleInput[] }
+  | { id: number; type: "encryptFile"; file: File; downloadCode: string | null; options: WorkerEncryptOptions }
+  | { id: number; type: "getFileKey"; envelope: Envelope; downloadCode: string; password?: string }
+  | { id: number; type: "deriveCodeKey"; envelope: Envelope; downloadCode: string; password?: string }
+  | { id: number; type: "decryptFile"; ciphertext: Blob; envelope: Envelope; fileKey: CryptoKey; metadata: FileMetadata }
+  | {
+    id: number;
+    type: "decryptFileTo";
+    ciphertext: ReadableStream<Uint8Array>;
+    sink: WritableStream<Uint8Array>;
+    totalBytes: number;
+    envelope: Envelope;
+    fileKey: CryptoKey;
+    metadata: FileMetadata;
+  }
+  | { id: number; type: "abort" };
+
+/** The messages the worker sends back for a call. */
+export type CryptoWorkerResponse =
+  | { id: number; type: "progress"; processedBytes: number; totalBytes: number }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; name: string; message: string };
+
+/** The result type of each request. */
+interface CryptoWorkerResults {
+  calibrateKdf: KdfParams;
+  createBundle: { file: File; manifest: BundleEntry[] };
+  encryptFile: EncryptedFile;
+  getFileKey: CryptoKey;
+  deriveCodeKey: CryptoKey;
+  decryptFile: Blob;
+  decryptFileTo: string;
+}
+
+type CallRequest = CryptoWorkerRequest extends infer R ? (R extends { type: keyof CryptoWorkerResults } ? Omit<R, "id"> : never) : never;
+
+// --- Worker Lifecycle ---
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressOptions["onProgress"];
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingCall>();
+
+/** Rebuilds an Error from a worker message, keeping its name so AbortError can be recognised. */
+const toError = (name: string, message: string) => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+/**
+ * Returns the shared crypto worker, starting it on first use.
+ * If the worker crashes, every pending call is rejected and the next call starts a fresh one.
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/crypto.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+    const message = event.data;
+    const call = pending.get(message.id);
+    if (!call) return;
+
+    switch (message.type) {
+      case "progress":
+        call.onProgress?.(message.processedBytes, message.totalBytes);
+        break;
+      case "result":
+        pending.delete(message.id);
+        call.resolve(message.result);
+        break;
+      case "error":
+        pending.delete(message.id);
+        call.reject(toError(message.name, message.message));
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    console.error("Crypto worker failed:", event);
+    worker?.terminate();
+    worker = null;
+    for (const call of pending.values()) {
+      call.reject(new Error("The encryption worker stopped unexpectedly. Please try again."));
+    }
+    pending.clear();
+  };
+  return worker;
+}
+
+/**
+ * Sends a request to the worker and resolves with its result.
+ * Aborting the signal rejects immediately and tells the worker to stop at the next segment.
+ * Streams in the request must be listed in transfer, which moves them to the worker.
+ */
+function call<T extends CallRequest>(request: T, { onProgress, signal }: ProgressOptions = {}, transfer: Transferable[] = []): Promise<CryptoWorkerResults[T["type"]]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const id = nextId++;
+    const target = getWorker();
+    const onAbort = () => {
+      pending.delete(id);
+      target.postMessage({ id, type: "abort" } satisfies CryptoWorkerRequest);
+      reject(signal.reason);
+    };
+
+    pending.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(result as CryptoWorkerResults[T["type"]]);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+      onProgress,
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    target.postMessage({ ...request, id }, transfer);
+  });
+}
+
+let streamsTransferable: boolean | undefined;
+
+/** Whether this browser can hand streams to a worker. Checked once, on first use. */
+function canTransferStreams(): boolean {
+  if (streamsTransferable === undefined) {
+    const channel = new MessageChannel();
+    try {
+      const stream = new ReadableStream();
+      channel.port1.postMessage(stream, [stream]);
+      streamsTransferable = true;
+    } catch {
+      streamsTransferable = false;
+    } finally {
+      channel.port1.close();
+      channel.port2.close();
+    }
+  }
+  return streamsTransferable;
+}
+
+// --- Public API ---
+
+/** The crypto.ts API, run off the main thread. */
+export const cryptoWorker = {
+  /** See calibrateKdf in kdf.ts. Calibration is cached inside the worker. */
+  calibrateKdf: (name: KdfName) => call({ type: "calibrateKdf", name }),
+
+  /** See createBundle in bundle.ts. Paths must be worked out on the page, since they do not survive cloning. */
+  createBundle: (inputs: BundleInput[], options: ProgressOptions = {}) =>
+    call({ type: "createBundle", inputs }, options),
+
+  /**
+   * See encryptFile in crypto.ts. The download code is null for files that open only with recipients' keys,
+   * which is refused here before any work is sent to the worker unless there is at least one recipient.
+   */
+  encryptFile: (file: File, downloadCode: string | null, { onProgress, signal, ...options }: EncryptOptions = {}) => {
+    if (downloadCode === null && !options.recipients?.length) {
+      return Promise.reject(new Error("A file needs a download code, at least one recipient, or both."));
+    }
+    return call({ type: "encryptFile", file, downloadCode, options }, { onProgress, signal });
+  },
+
+  /** See getFileKey in crypto.ts. */
+  getFileKey: (envelope: Envelope, downloadCode: string, password?: string, options: ProgressOptions = {}) =>
+    call({ type: "getFileKey", envelope, downloadCode, password }, options),
+
+  /** See deriveCodeKey in crypto.ts. */
+  deriveCodeKey: (envelope: Envelope, downloadCode: string, password?: string, options: ProgressOptions = {}) =>
+    call({ type: "deriveCodeKey", envelope, downloadCode, password }, options),
+
+  /** See decryptFile in crypto.ts. */
+  decryptFile: (ciphertext: Blob, envelope: Envelope, fileKey: CryptoKey, metadata: FileMetadata, options: ProgressOptions = {}) =>
+    call({ type: "decryptFile", ciphertext, envelope, fileKey, metadata }, options),
+
+  /**
+   * See decryptFileTo in crypto.ts. Both streams are moved to the worker, which reads, checks and decrypts the
+   * ciphertext there; the page only receives the plaintext into the sink. Browsers that cannot move streams
+   * decrypt on the page instead.
+   */
+  decryptFileTo: (
+    ciphertext: ReadableStream<Uint8Array>,
+    sink: WritableStream<Uint8Array>,
+    totalBytes: number,
+    envelope: Envelope,
+    fileKey: CryptoKey,
+    metadata: FileMetadata,
+    options: ProgressOptions = {}
+  ) => {
+    if (!canTransferStreams()) return decryptFileTo(ciphertext, sink, totalBytes, envelope, fileKey, metadata, options);
+    return call({ type: "decryptFileTo", ciphertext, sink, totalBytes, envelope, fileKey, metadata }, options, [ciphertext, sink]);
+  },
+};
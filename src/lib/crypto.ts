@@ -1,35 +1,152 @@
 /**
  * SecureShare v2.0 - Client-Side E2E Encryption Logic
  * Implements the sender and receiver cryptographic flows.
- * Uses the Web Crypto API for all operations, ensuring no external dependencies are needed for security.
+ * Uses the Web Crypto API for all operations, except the optional Argon2id key derivation in kdf.ts.
  */
 
-// --- Cryptographic Configuration ---
+import { z } from "zod";
+import type { IHasher } from "hash-wasm";
+import type { CurrentEnvelope, Envelope } from "@/lib/envelope";
+import { defaultKdfParams, deriveKeyMaterial, type KdfParams } from "@/lib/kdf";
 
-/** Number of iterations for the Password-Based Key Derivation Function 2 (PBKDF2).
- * A higher number increases the cost of brute-force attacks. */
-const KDF_ITERATIONS = 250000;
+// --- Cryptographic Configuration ---
 
-/** The hash function to use within PBKDF2. SHA-256 is a secure standard. */
-const KDF_HASH = "SHA-256";
+/** The envelope format version written by encryptFile. Older versions are upgraded by parseEnvelope. */
+export const ENVELOPE_VERSION = 2;
 
 /** The length of the salt in bytes. A salt adds randomness to the key derivation process. */
-const SALT_BYTES = 16; // 128 bits
+export const SALT_BYTES = 16; // 128 bits
 
 /** The length of the Initialization Vector (IV) in bytes for AES-GCM. 12 bytes is standard. */
-const IV_BYTES = 12; // 96 bits
+export const IV_BYTES = 12; // 96 bits
 
 /** The primary encryption algorithm used for files and instructions. AES-GCM provides authenticated encryption. */
-const KEY_ALG = "AES-GCM";
+export const KEY_ALG = "AES-GCM" as const;
 
 /** The bit length of the generated file keys. 256 bits is a strong standard. */
-const KEY_LEN = 256;
+export const KEY_LEN = 256;
 
 /** The algorithm used to "wrap" (encrypt) the file key. */
 const WRAP_ALG = "AES-GCM";
 
 /** The length of the IV for the key wrapping operation. */
-const WRAP_IV_BYTES = 12;
+export const WRAP_IV_BYTES = 12;
+
+/** The length of the secret share the server holds for server-assisted envelopes. Without it the
+ * KEK cannot be derived, so guessing the code requires asking the server, which counts attempts. */
+export const SERVER_SHARE_BYTES = 32;
+
+/** HKDF context strings that separate the server-assisted KEK from the code verifier sent to the server. */
+const HKDF_KEK_INFO = new TextEncoder().encode("SecureShare server-assisted KEK");
+const HKDF_VERIFIER_INFO = new TextEncoder().encode("SecureShare code verifier");
+
+/** The curve for recipient key pairs. P-256 is the ECDH curve every browser's Web Crypto supports. */
+export const RECIPIENT_CURVE = "P-256" as const;
+
+/** The length of an uncompressed P-256 public key: a 0x04 prefix and two 32-byte coordinates. */
+export const RECIPIENT_PUBLIC_KEY_BYTES = 65;
+
+/** The length of a recipient key ID, a truncated SHA-256 of the public key used to find a recipient's entry. */
+export const RECIPIENT_KEY_ID_BYTES = 16;
+
+/** HKDF context string for KEKs derived from an ECDH shared secret. */
+const HKDF_RECIPIENT_INFO = new TextEncoder().encode("SecureShare recipient KEK");
+
+/** The algorithm of sender signing keys. Like recipient keys, they use P-256 for universal browser support. */
+export const SIGNATURE_ALG = { name: "ECDSA", namedCurve: RECIPIENT_CURVE } as const;
+
+/** The length of a raw P-256 signing public key, and of an ECDSA P-256 signature in the P1363 format. */
+export const SIGNING_PUBLIC_KEY_BYTES = 65;
+export const SIGNATURE_BYTES = 64;
+
+/** Prefixed to everything a sender signs, so a signature cannot be reused in another context. */
+const SIGNATURE_CONTEXT = "SecureShare envelope signature v1";
+
+/** Base32 characters in a key fingerprint: 160 bits of the public key's SHA-256, shown in groups of four. */
+const FINGERPRINT_CHARS = 32;
+const FINGERPRINT_GROUP = 4;
+
+/** Identifier for the segmented streaming format. Files are split into fixed-size segments,
+ * each sealed with AES-GCM under its own counter-derived nonce, so neither side ever holds the whole file in memory. */
+export const STREAM_ALG = "AES-GCM-STREAM" as const;
+
+/** The plaintext size of every segment except the last one in the streaming format. */
+export const SEGMENT_BYTES = 64 * 1024; // 64 KiB
+
+/** The length of the AES-GCM authentication tag appended to each encrypted segment. */
+export const TAG_BYTES = 16;
+
+/** The random, per-file part of each segment nonce. The remaining 5 bytes hold a 32-bit
+ * segment counter and a final-segment flag, which stops truncation and reordering of segments. */
+export const NONCE_PREFIX_BYTES = 7;
+
+/** How many encrypted segments to collect before folding them into the output Blob. */
+const SEGMENTS_PER_BLOB_PART = 64;
+
+/** Ways to pad the plaintext before encryption so the stored ciphertext does not reveal the exact file size.
+ * "padme" bounds the overhead to about 12%; "pow2" rounds up to the next power of two. */
+export const PADDING_SCHEMES = ["none", "padme", "pow2"] as const;
+
+export type PaddingScheme = (typeof PADDING_SCHEMES)[number];
+
+/** The smallest size bucket published in plaintext. Exact sizes are only stored encrypted. */
+const MIN_SIZE_BUCKET = 64 * 1024; // 64 KiB
+
+// --- Encrypted File Metadata ---
+
+/**
+ * Whether a bundle entry path is relative and cannot climb out of the folder it is extracted to.
+ * @param {string} path The entry path, using "/" as the separator.
+ */
+const isSafeBundlePath = (path: string) =>
+  !path.includes("\\") && path.split("/").every(segment => segment !== "" && segment !== "." && segment !== "..");
+
+/** One file inside a multi-file bundle: where it sits in the bundle and the SHA-256 of its content. */
+export const bundleEntrySchema = z.object({
+  path: z.string().refine(isSafeBundlePath, "Bundle entry has an unsafe path."),
+  size: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, "Bundle entry has an invalid hash."),
+});
+
+export type BundleEntry = z.infer<typeof bundleEntrySchema>;
+
+/** The file details sealed under the file key, so only someone holding the code can see them.
+ * Multi-file shares add a manifest describing each file packed into the bundle. Newer files also
+ * carry the SHA-256 of their plaintext, which the sender and the recipient can compare out of band,
+ * and may ask for the file to be previewed only. Sealed here, the request cannot be stripped by the server.
+ * A snippet is text typed in rather than a file, which recipients are shown inline. */
+export const fileMetadataSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  size: z.number().int().nonnegative(),
+  manifest: z.array(bundleEntrySchema).optional(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, "File details have an invalid hash.").optional(),
+  view_only: z.boolean().optional(),
+  snippet: z.boolean().optional(),
+});
+
+export type FileMetadata = z.infer<typeof fileMetadataSchema>;
+
+/** A sender's signature over the ciphertext hash and the encrypted file details, as stored in the envelope's `signature`. */
+export interface EnvelopeSignature {
+  /** The sender's raw ECDSA P-256 public key, hex-encoded. */
+  public_key: string;
+  /** The hex-encoded SHA-256 of the uploaded ciphertext. */
+  ciphertext_sha256: string;
+  /** The hex-encoded ECDSA signature (P1363 format, as produced by Web Crypto). */
+  signature: string;
+}
+
+/** The file key wrapped for one recipient's public key, as stored in the envelope's `recipients`. */
+export interface RecipientEntry {
+  /** Truncated SHA-256 of the recipient's raw public key, from recipientKeyId. */
+  key_id: string;
+  /** The sender's one-time ECDH public key for this recipient, raw and hex-encoded. */
+  ephemeral_public_key: string;
+  wrapped_file_key: string;
+  wrap_iv: string;
+}
 
 // --- Base32 Encoding for Human-Readable Codes ---
 const BASE32_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Excludes confusing characters like I, O, 0, 1
@@ -61,10 +178,10 @@ function encodeBase32(bytes: Uint8Array): string {
 }
 
 // --- Helper Functions ---
-const arrayBufferToHex = (bytes: Uint8Array) =>
+export const arrayBufferToHex = (bytes: Uint8Array) =>
   Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
 
-const hexToArrayBuffer = (hex: string): Uint8Array => {
+export const hexToArrayBuffer = (hex: string): Uint8Array => {
   const buffer = new ArrayBuffer(hex.length / 2);
   const view = new Uint8Array(buffer);
   for (let i = 0; i < hex.length; i += 2) {
@@ -73,6 +190,105 @@ const hexToArrayBuffer = (hex: string): Uint8Array => {
   return view;
 };
 
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+};
+
+/**
+ * Rounds a file size up to the next power of two, so the plaintext envelope only reveals a size range.
+ * @param {number} size The exact size in bytes.
+ * @returns {number} The size bucket in bytes.
+ */
+function sizeBucket(size: number): number {
+  let bucket = MIN_SIZE_BUCKET;
+  while (bucket < size) bucket *= 2;
+  return bucket;
+}
+
+/**
+ * Computes the length a file is padded to before encryption.
+ * PADMÉ keeps only the top bits of the size, leaking O(log log n) bits of it (Nikitin et al., 2019).
+ * @param {number} size The exact size in bytes.
+ * @param {PaddingScheme} scheme The padding scheme.
+ * @returns {number} The padded size in bytes.
+ */
+export function paddedLength(size: number, scheme: PaddingScheme): number {
+  if (scheme === "none" || size < 2) return size;
+
+  let exponent = Math.floor(Math.log2(size));
+  if (2 ** exponent > size) exponent--;
+
+  if (scheme === "pow2") {
+    return 2 ** exponent === size ? size : 2 ** (exponent + 1);
+  }
+
+  const significantBits = Math.floor(Math.log2(exponent)) + 1;
+  const step = 2 ** (exponent - significantBits);
+  return Math.ceil(size / step) * step;
+}
+
+/**
+ * Computes the size of the ciphertext the server stores for a file: the padded plaintext plus one tag per segment.
+ * @param {number} size The exact plaintext size in bytes, as passed to encryptFile.
+ * @param {PaddingScheme} scheme The padding scheme.
+ * @returns {number} The ciphertext size in bytes.
+ */
+export function ciphertextLength(size: number, scheme: PaddingScheme): number {
+  const padded = paddedLength(size, scheme);
+  return padded + Math.max(1, Math.ceil(padded / SEGMENT_BYTES)) * TAG_BYTES;
+}
+
+/** How much of a Blob to read at a time while hashing it. */
+const HASH_READ_BYTES = 1024 * 1024; // 1 MiB
+
+/**
+ * Computes the SHA-256 of a Blob incrementally, so large files are never read into memory at once.
+ * Web Crypto's digest has no streaming interface, so this uses the lazily loaded hash-wasm build.
+ * @param {Blob} blob The data to hash.
+ * @param {ProgressOptions} [options] Progress reporting and cancellation.
+ * @returns {Promise<string>} The hex-encoded digest.
+ */
+export async function sha256Hex(blob: Blob, { onProgress, signal }: ProgressOptions = {}): Promise<string> {
+  const { createSHA256 } = await import("hash-wasm");
+  const hasher = await createSHA256();
+  hasher.init();
+  for (let start = 0; start < blob.size; start += HASH_READ_BYTES) {
+    signal?.throwIfAborted();
+    const end = Math.min(start + HASH_READ_BYTES, blob.size);
+    hasher.update(new Uint8Array(await blob.slice(start, end).arrayBuffer()));
+    onProgress?.(end, blob.size);
+  }
+  return hasher.digest("hex");
+}
+
+/**
+ * Creates a pass-through stream that computes the SHA-256 of everything flowing through it.
+ * The digest is handed over at the end, before the stream closes; if onDigest throws, the stream
+ * fails instead, so whatever it feeds is never completed with data that did not check out.
+ * @param {(digest: string) => void} onDigest Receives the hex-encoded digest, and may reject it by throwing.
+ * @returns {TransformStream<Uint8Array, Uint8Array>} The hashing stream.
+ */
+export function hashingStream(onDigest: (digest: string) => void): TransformStream<Uint8Array, Uint8Array> {
+  let hasher: IHasher;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start() {
+      const { createSHA256 } = await import("hash-wasm");
+      hasher = await createSHA256();
+      hasher.init();
+    },
+    transform(chunk, controller) {
+      hasher.update(chunk);
+      controller.enqueue(chunk);
+    },
+    flush() {
+      onDigest(hasher.digest("hex"));
+    },
+  });
+}
+
 // --- Core Cryptographic Functions ---
 
 /**
@@ -85,6 +301,26 @@ export function generateDownloadCode(length = 10): string {
   return encodeBase32(randomBytes).slice(0, length);
 }
 
+/**
+ * Generates the sender's secret management token. It carries 256 bits of randomness,
+ * since unlike the download code it is never protected by a KDF.
+ * @returns {string} The Base32 encoded token.
+ */
+export function generateManagementToken(): string {
+  return encodeBase32(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Hashes a management token for storage. The server only keeps this hash and checks
+ * tokens by hashing them the same way, so a database leak does not reveal working tokens.
+ * @param {string} token The management token.
+ * @returns {Promise<string>} The hex-encoded SHA-256 digest.
+ */
+export async function hashManagementToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return arrayBufferToHex(new Uint8Array(digest));
+}
+
 /**
  * Generates a new symmetric key for encrypting a file.
  * @returns {Promise<CryptoKey>} A new AES-GCM CryptoKey.
@@ -98,31 +334,85 @@ export async function generateFileKey(): Promise<CryptoKey> {
 }
 
 /**
- * Derives a Key Encrypting Key (KEK) from the user's download code and a salt.
+ * Joins the download code and the optional password into the secret fed to the KDF.
+ * Codes never contain a NUL character, so the separator keeps the two parts unambiguous.
+ * @param {string} downloadCode The user-facing secret code.
+ * @param {string} [password] The sender's extra password, if the envelope is password protected.
+ */
+const kdfSecret = (downloadCode: string, password?: string) =>
+  password ? `${downloadCode}\u0000${password.normalize("NFC")}` : downloadCode;
+
+/**
+ * Derives a Key Encrypting Key (KEK) from the user's download code, optional password and a salt.
  * This KEK is used to wrap the file key.
  * @param {string} downloadCode The user-facing secret code.
  * @param {Uint8Array} salt A random salt to add to the derivation.
+ * @param {KdfParams} kdfParams The key derivation function and its costs.
+ * @param {string} [password] The sender's extra password, shared separately from the link.
  * @returns {Promise<CryptoKey>} The derived KEK.
  */
-async function deriveKek(downloadCode: string, salt: Uint8Array): Promise<CryptoKey> {
-  const baseKey = await crypto.subtle.importKey(
+async function deriveKek(downloadCode: string, salt: Uint8Array, kdfParams: KdfParams, password?: string): Promise<CryptoKey> {
+  const keyMaterial = await deriveKeyMaterial(kdfSecret(downloadCode, password), salt, kdfParams);
+
+  return crypto.subtle.importKey(
     "raw",
-    new TextEncoder().encode(downloadCode),
-    { name: "PBKDF2" },
+    keyMaterial,
+    { name: WRAP_ALG, length: KEY_LEN },
     false,
-    ["deriveKey"]
+    ["wrapKey", "unwrapKey"]
   );
+}
 
+/**
+ * Imports stretched key material as an HKDF key for the server-assisted mode.
+ * @param {ArrayBuffer} keyMaterial The output of the KDF.
+ * @returns {Promise<CryptoKey>} The non-extractable code key.
+ */
+function importCodeKey(keyMaterial: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", keyMaterial, "HKDF", false, ["deriveKey", "deriveBits"]);
+}
+
+/**
+ * Stretches the download code for a server-assisted envelope. This is the expensive step;
+ * the verifier and the KEK are both cheaply derived from the result.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {string} downloadCode The secret code provided by the user.
+ * @param {string} [password] The extra password, for password-protected envelopes.
+ * @returns {Promise<CryptoKey>} The non-extractable code key.
+ */
+export async function deriveCodeKey(envelope: Envelope, downloadCode: string, password?: string): Promise<CryptoKey> {
+  assertPassword(envelope, password);
+  const salt = hexToArrayBuffer(envelope.salt);
+  return importCodeKey(await deriveKeyMaterial(kdfSecret(downloadCode, password), salt, envelope.kdf_params));
+}
+
+/**
+ * Derives the value the server compares to check a code. It is independent of the KEK,
+ * so the server learns nothing that helps it unwrap the file key.
+ * @param {CryptoKey} codeKey The code key from deriveCodeKey.
+ * @returns {Promise<string>} The hex-encoded verifier.
+ */
+export async function codeVerifier(codeKey: CryptoKey): Promise<string> {
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: HKDF_VERIFIER_INFO },
+    codeKey,
+    256
+  );
+  return arrayBufferToHex(new Uint8Array(bits));
+}
+
+/**
+ * Mixes the server's secret share into the code key to produce the KEK of a server-assisted envelope.
+ * @param {CryptoKey} codeKey The code key from deriveCodeKey.
+ * @param {Uint8Array} serverShare The secret share held by the server.
+ * @returns {Promise<CryptoKey>} The derived KEK.
+ */
+function deriveServerAssistedKek(codeKey: CryptoKey, serverShare: Uint8Array): Promise<CryptoKey> {
   return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: salt.slice(),
-      iterations: KDF_ITERATIONS,
-      hash: KDF_HASH,
-    },
-    baseKey,
+    { name: "HKDF", hash: "SHA-256", salt: serverShare.slice(), info: HKDF_KEK_INFO },
+    codeKey,
     { name: WRAP_ALG, length: KEY_LEN },
-    true,
+    false,
     ["wrapKey", "unwrapKey"]
   );
 }
@@ -163,140 +453,802 @@ async function unwrapFileKey(wrappedKey: Uint8Array, iv: Uint8Array, kek: Crypto
   );
 }
 
+/**
+ * Builds the nonce for one segment of the streaming format: the file's random prefix,
+ * the big-endian segment index and a flag marking the final segment.
+ * @param {Uint8Array} noncePrefix The random per-file nonce prefix.
+ * @param {number} index The zero-based segment index.
+ * @param {boolean} final Whether this is the last segment of the file.
+ * @returns {Uint8Array} The 12-byte AES-GCM nonce.
+ */
+function segmentNonce(noncePrefix: Uint8Array, index: number, final: boolean): Uint8Array {
+  if (index > 0xffffffff) {
+    throw new Error("File is too large for the streaming format.");
+  }
+  const nonce = new Uint8Array(IV_BYTES);
+  nonce.set(noncePrefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+  nonce[IV_BYTES - 1] = final ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Encrypts a single segment of the streaming format.
+ * @param {CryptoKey} fileKey The file key.
+ * @param {Uint8Array} noncePrefix The random per-file nonce prefix.
+ * @param {number} index The zero-based segment index.
+ * @param {boolean} final Whether this is the last segment of the file.
+ * @param {ArrayBuffer} plaintext The segment content.
+ * @returns {Promise<ArrayBuffer>} The segment ciphertext followed by its tag.
+ */
+async function encryptSegment(fileKey: CryptoKey, noncePrefix: Uint8Array, index: number, final: boolean, plaintext: ArrayBuffer): Promise<ArrayBuffer> {
+  return crypto.subtle.encrypt(
+    { name: KEY_ALG, iv: segmentNonce(noncePrefix, index, final) },
+    fileKey,
+    plaintext
+  );
+}
+
+/**
+ * Decrypts and authenticates a single segment of the streaming format.
+ * Fails if the segment was moved, or if its final flag does not match its position.
+ * @param {CryptoKey} fileKey The file key.
+ * @param {Uint8Array} noncePrefix The random per-file nonce prefix.
+ * @param {number} index The zero-based segment index.
+ * @param {boolean} final Whether this is the last segment of the stream.
+ * @param {Uint8Array} ciphertext The segment ciphertext and tag.
+ * @returns {Promise<Uint8Array>} The segment plaintext.
+ */
+async function decryptSegment(fileKey: CryptoKey, noncePrefix: Uint8Array, index: number, final: boolean, ciphertext: Uint8Array): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: KEY_ALG, iv: segmentNonce(noncePrefix, index, final) },
+    fileKey,
+    ciphertext.slice()
+  );
+  return new Uint8Array(plaintext);
+}
+
+/** Progress reporting and cancellation for long-running operations. */
+export interface ProgressOptions {
+  /** Called as data is processed, with the number of bytes handled so far. */
+  onProgress?: (processedBytes: number, totalBytes: number) => void;
+  /** Stops the operation at the next segment boundary when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Creates a pass-through stream that reports progress and stops when the signal is aborted.
+ * @param {number} totalBytes The expected number of bytes, passed through to onProgress.
+ * @param {ProgressOptions} options The progress callback and abort signal.
+ * @returns {TransformStream<Uint8Array, Uint8Array>} The monitoring stream.
+ */
+export function trackProgress(totalBytes: number, { onProgress, signal }: ProgressOptions): TransformStream<Uint8Array, Uint8Array> {
+  let processedBytes = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      signal?.throwIfAborted();
+      processedBytes += chunk.length;
+      onProgress?.(processedBytes, totalBytes);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Encrypts a file segment by segment into the streaming format.
+ * Only one segment of plaintext is read at a time; encrypted segments are folded into a Blob,
+ * which the browser is free to keep out of the JavaScript heap. The plaintext is hashed on the same pass.
+ * @param {Blob} file The file to encrypt.
+ * @param {CryptoKey} fileKey The file key.
+ * @param {Uint8Array} noncePrefix The random per-file nonce prefix.
+ * @param {number} totalSize The padded plaintext size. Bytes past the end of the file are zeros.
+ * @param {ProgressOptions} options Progress reporting and cancellation.
+ * @returns {Promise<{ ciphertext: Blob, sha256: string }>} The encrypted file and the hex-encoded SHA-256 of the unpadded plaintext.
+ */
+async function encryptSegments(file: Blob, fileKey: CryptoKey, noncePrefix: Uint8Array, totalSize: number, { onProgress, signal }: ProgressOptions): Promise<{ ciphertext: Blob, sha256: string }> {
+  const { createSHA256 } = await import("hash-wasm");
+  const hasher = await createSHA256();
+  hasher.init();
+  const segmentCount = Math.max(1, Math.ceil(totalSize / SEGMENT_BYTES));
+  let ciphertext = new Blob([], { type: "application/octet-stream" });
+  let pending: ArrayBuffer[] = [];
+
+  for (let index = 0; index < segmentCount; index++) {
+    signal?.throwIfAborted();
+    const start = index * SEGMENT_BYTES;
+    const end = Math.min(start + SEGMENT_BYTES, totalSize);
+    const plaintext = new Uint8Array(end - start);
+    const fileBytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+    hasher.update(fileBytes);
+    plaintext.set(fileBytes);
+    pending.push(await encryptSegment(fileKey, noncePrefix, index, index === segmentCount - 1, plaintext.buffer));
+
+    if (pending.length === SEGMENTS_PER_BLOB_PART || index === segmentCount - 1) {
+      ciphertext = new Blob([ciphertext, ...pending], { type: ciphertext.type });
+      pending = [];
+    }
+    onProgress?.(end, totalSize);
+  }
+
+  return { ciphertext, sha256: hasher.digest("hex") };
+}
+
+/**
+ * Encrypts a short text field, such as the instructions or the file details, with the file key.
+ * @param {CryptoKey} fileKey The file key.
+ * @param {string} plaintext The text to encrypt.
+ * @returns {Promise<{ ciphertext: string, iv: string }>} The hex-encoded ciphertext and its IV.
+ */
+async function encryptField(fileKey: CryptoKey, plaintext: string): Promise<{ ciphertext: string, iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: KEY_ALG, iv: iv },
+    fileKey,
+    new TextEncoder().encode(plaintext)
+  );
+  return { ciphertext: arrayBufferToHex(new Uint8Array(ciphertext)), iv: arrayBufferToHex(iv) };
+}
+
+/**
+ * Decrypts a text field sealed by encryptField.
+ * @param {CryptoKey} fileKey The file key.
+ * @param {string} ciphertext The hex-encoded ciphertext.
+ * @param {string} iv The hex-encoded IV.
+ * @returns {Promise<string>} The decrypted text.
+ */
+async function decryptField(fileKey: CryptoKey, ciphertext: string, iv: string): Promise<string> {
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    { name: KEY_ALG, iv: hexToArrayBuffer(iv).slice() },
+    fileKey,
+    hexToArrayBuffer(ciphertext).slice()
+  );
+  return new TextDecoder().decode(decryptedBuffer);
+}
+
+// --- Recipient Keys ---
+
+/**
+ * Exports a recipient public key in the raw uncompressed form used in envelopes and contact lists.
+ * @param {CryptoKey} publicKey An ECDH P-256 public key.
+ * @returns {Promise<string>} The hex-encoded public key.
+ */
+export async function exportRecipientPublicKey(publicKey: CryptoKey): Promise<string> {
+  return arrayBufferToHex(new Uint8Array(await crypto.subtle.exportKey("raw", publicKey)));
+}
+
+/**
+ * Imports a recipient public key shared as hex, as produced by exportRecipientPublicKey.
+ * @param {string} publicKeyHex The hex-encoded public key. Whitespace is ignored.
+ * @returns {Promise<CryptoKey>} The ECDH public key.
+ * @throws {Error} If the text is not a valid P-256 public key.
+ */
+export async function importRecipientPublicKey(publicKeyHex: string): Promise<CryptoKey> {
+  const hex = publicKeyHex.replace(/\s+/g, "").toLowerCase();
+  if (!/^[0-9a-f]*$/.test(hex) || hex.length !== RECIPIENT_PUBLIC_KEY_BYTES * 2) {
+    throw new Error("A recipient public key must be 65 bytes of hex.");
+  }
+  try {
+    return await crypto.subtle.importKey("raw", hexToArrayBuffer(hex), { name: "ECDH", namedCurve: RECIPIENT_CURVE }, true, []);
+  } catch {
+    throw new Error("This is not a valid recipient public key.");
+  }
+}
+
+/**
+ * Computes the ID under which a recipient's entry is stored in the envelope.
+ * @param {CryptoKey} publicKey The recipient's ECDH public key.
+ * @returns {Promise<string>} The hex-encoded key ID.
+ */
+export async function recipientKeyId(publicKey: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey("raw", publicKey);
+  const digest = await crypto.subtle.digest("SHA-256", raw);
+  return arrayBufferToHex(new Uint8Array(digest, 0, RECIPIENT_KEY_ID_BYTES));
+}
+
+/**
+ * Computes a public key's fingerprint, a short string two people can read out to each other
+ * to confirm they are talking about the same key.
+ * @param {CryptoKey} publicKey A recipient's ECDH or a sender's ECDSA public key.
+ * @returns {Promise<string>} The fingerprint, in space-separated groups of Base32 characters.
+ */
+export async function keyFingerprint(publicKey: CryptoKey): Promise<string> {
+  return rawKeyFingerprint(new Uint8Array(await crypto.subtle.exportKey("raw", publicKey)));
+}
+
+/**
+ * Computes the fingerprint of a raw public key, as keyFingerprint does.
+ * @param {Uint8Array} raw The raw public key.
+ */
+async function rawKeyFingerprint(raw: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", raw);
+  const encoded = encodeBase32(new Uint8Array(digest)).slice(0, FINGERPRINT_CHARS);
+  return encoded.match(new RegExp(`.{${FINGERPRINT_GROUP}}`, "g")).join(" ");
+}
+
+/**
+ * Derives the KEK shared between an ephemeral sender key and a recipient key.
+ * Both public keys are bound in as the HKDF salt, so a wrapped key cannot be replayed to another recipient.
+ * @param {CryptoKey} privateKey One side's ECDH private key.
+ * @param {CryptoKey} publicKey The other side's ECDH public key.
+ * @param {Uint8Array} ephemeralPublicKey The raw ephemeral public key.
+ * @param {Uint8Array} recipientPublicKey The raw recipient public key.
+ * @returns {Promise<CryptoKey>} The derived KEK.
+ */
+async function deriveRecipientKek(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: concatBytes(ephemeralPublicKey, recipientPublicKey), info: HKDF_RECIPIENT_INFO },
+    hkdfKey,
+    { name: WRAP_ALG, length: KEY_LEN },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+/**
+ * Wraps the file key for one recipient with ECDH against a fresh ephemeral key pair.
+ * @param {CryptoKey} fileKey The key to be wrapped.
+ * @param {CryptoKey} recipientPublicKey The recipient's ECDH public key.
+ * @returns {Promise<RecipientEntry>} The recipient's envelope entry.
+ */
+async function wrapFileKeyForRecipient(fileKey: CryptoKey, recipientPublicKey: CryptoKey): Promise<RecipientEntry> {
+  const ephemeral = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: RECIPIENT_CURVE }, true, ["deriveBits"]);
+  const ephemeralRaw = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey));
+  const recipientRaw = new Uint8Array(await crypto.subtle.exportKey("raw", recipientPublicKey));
+  const kek = await deriveRecipientKek(ephemeral.privateKey, recipientPublicKey, ephemeralRaw, recipientRaw);
+  const { wrappedKey, iv } = await wrapFileKey(fileKey, kek);
+  return {
+    key_id: await recipientKeyId(recipientPublicKey),
+    ephemeral_public_key: arrayBufferToHex(ephemeralRaw),
+    wrapped_file_key: arrayBufferToHex(new Uint8Array(wrappedKey)),
+    wrap_iv: arrayBufferToHex(iv),
+  };
+}
+
+// --- Sender Signatures ---
+
+/**
+ * Serializes what a sender signature covers: the ciphertext hash and every envelope field that
+ * determines the decrypted content. Key wraps are left out, since re-wrapping the same file key
+ * cannot change what the file decrypts to.
+ * @param {CurrentEnvelope} envelope The envelope, signed or to be signed.
+ * @param {string} ciphertextSha256 The hex-encoded SHA-256 of the ciphertext.
+ */
+function signedContent(envelope: CurrentEnvelope, ciphertextSha256: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    SIGNATURE_CONTEXT,
+    ciphertextSha256,
+    envelope.alg,
+    envelope.iv,
+    envelope.chunk_size,
+    envelope.padding,
+    envelope.size_bucket,
+    envelope.encrypted_metadata,
+    envelope.metadata_iv,
+    envelope.encrypted_instructions ?? null,
+    envelope.instructions_iv ?? null,
+  ]));
+}
+
+/**
+ * Signs an envelope and its ciphertext with the sender's key.
+ * @param {CurrentEnvelope} envelope The envelope, complete apart from its signature.
+ * @param {Blob} ciphertext The encrypted file content.
+ * @param {CryptoKeyPair} signingKeyPair The sender's ECDSA key pair.
+ * @returns {Promise<EnvelopeSignature>} The signature to store in the envelope.
+ */
+async function signEnvelope(envelope: CurrentEnvelope, ciphertext: Blob, signingKeyPair: CryptoKeyPair): Promise<EnvelopeSignature> {
+  const ciphertextSha256 = await sha256Hex(ciphertext);
+  const signature = await crypto.subtle.sign(
+    { name: SIGNATURE_ALG.name, hash: "SHA-256" },
+    signingKeyPair.privateKey,
+    signedContent(envelope, ciphertextSha256)
+  );
+  return {
+    public_key: arrayBufferToHex(new Uint8Array(await crypto.subtle.exportKey("raw", signingKeyPair.publicKey))),
+    ciphertext_sha256: ciphertextSha256,
+    signature: arrayBufferToHex(new Uint8Array(signature)),
+  };
+}
+
+/**
+ * Checks an envelope's sender signature. This covers the recorded ciphertext hash, so the downloaded
+ * ciphertext must still be compared with `signature.ciphertext_sha256` before the file is trusted.
+ * @param {Envelope} envelope The validated envelope, which must carry a signature.
+ * @returns {Promise<{ valid: boolean, fingerprint: string }>} Whether the signature holds, and the signer's key fingerprint.
+ */
+export async function verifyEnvelopeSignature(envelope: Envelope): Promise<{ valid: boolean, fingerprint: string }> {
+  const { public_key, ciphertext_sha256, signature } = envelope.signature;
+  const rawPublicKey = hexToArrayBuffer(public_key);
+  const fingerprint = await rawKeyFingerprint(rawPublicKey);
+  try {
+    const publicKey = await crypto.subtle.importKey("raw", rawPublicKey, SIGNATURE_ALG, false, ["verify"]);
+    const valid = await crypto.subtle.verify(
+      { name: SIGNATURE_ALG.name, hash: "SHA-256" },
+      publicKey,
+      hexToArrayBuffer(signature),
+      // Only the current format has a signature field, so a signed envelope is always in it.
+      signedContent(envelope as CurrentEnvelope, ciphertext_sha256)
+    );
+    return { valid, fingerprint };
+  } catch {
+    // A public key that is not a valid curve point cannot have made any signature.
+    return { valid: false, fingerprint };
+  }
+}
+
+// --- Passphrase Sealing ---
+
+/** Hex-encoded data sealed under a passphrase, with what is needed to derive the key again. */
+export interface PassphraseSealed {
+  kdf_params: KdfParams;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Derives the AES-GCM key for passphrase sealing.
+ * @param {string} passphrase The user's passphrase.
+ * @param {Uint8Array} salt The random salt.
+ * @param {KdfParams} kdfParams The KDF settings.
+ */
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, kdfParams: KdfParams): Promise<CryptoKey> {
+  const keyMaterial = await deriveKeyMaterial(passphrase.normalize("NFC"), salt, kdfParams);
+  return crypto.subtle.importKey("raw", keyMaterial, { name: KEY_ALG }, false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Encrypts data under a passphrase stretched with Argon2id, for secrets that leave the browser, such as key backups.
+ * @param {Uint8Array} plaintext The data to seal.
+ * @param {string} passphrase The user's passphrase.
+ * @returns {Promise<PassphraseSealed>} The sealed data.
+ */
+export async function sealWithPassphrase(plaintext: Uint8Array, passphrase: string): Promise<PassphraseSealed> {
+  const kdfParams = defaultKdfParams("Argon2id");
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await derivePassphraseKey(passphrase, salt, kdfParams);
+  const ciphertext = await crypto.subtle.encrypt({ name: KEY_ALG, iv }, key, plaintext);
+  return {
+    kdf_params: kdfParams,
+    salt: arrayBufferToHex(salt),
+    iv: arrayBufferToHex(iv),
+    ciphertext: arrayBufferToHex(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypts data sealed by sealWithPassphrase.
+ * @param {PassphraseSealed} sealed The sealed data.
+ * @param {string} passphrase The user's passphrase.
+ * @returns {Promise<Uint8Array>} The plaintext.
+ * @throws {Error} If the passphrase is wrong or the data was modified.
+ */
+export async function openWithPassphrase(sealed: PassphraseSealed, passphrase: string): Promise<Uint8Array> {
+  const key = await derivePassphraseKey(passphrase, hexToArrayBuffer(sealed.salt), sealed.kdf_params);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: KEY_ALG, iv: hexToArrayBuffer(sealed.iv).slice() },
+      key,
+      hexToArrayBuffer(sealed.ciphertext).slice()
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error("Incorrect passphrase, or the data has been modified.");
+  }
+}
+
 // --- Sender Flow ---
 
+/** Optional settings for encryptFile. Progress is reported in padded plaintext bytes. */
+export interface EncryptOptions extends ProgressOptions {
+  /** Instructions to encrypt alongside the file. */
+  instructions?: string;
+  /** How to pad the file before encryption. Defaults to no padding. */
+  padding?: PaddingScheme;
+  /** The key derivation function and costs that protect the file key, usually from calibrateKdf.
+   * Defaults to PBKDF2 with the standard iteration count. */
+  kdfParams?: KdfParams;
+  /** For multi-file bundles, the manifest from createBundle. It is encrypted with the file details. */
+  manifest?: BundleEntry[];
+  /** An extra password combined with the download code, so the link alone cannot open the file. */
+  password?: string;
+  /** Mix a secret share into the KEK that only the server hands out, after checking the code
+   * against its attempt limits. The share must be enrolled with the server after upload. */
+  serverAssisted?: boolean;
+  /** ECDH public keys of known contacts. Each gets an entry that opens the file with their private key. */
+  recipients?: CryptoKey[];
+  /** The sender's ECDSA key pair. When given, the envelope is signed so recipients can tell who sent it. */
+  signingKeyPair?: CryptoKeyPair;
+  /** Asks recipients' browsers to show the file without offering to save it. A request, not a guarantee. */
+  viewOnly?: boolean;
+  /** Marks the file as a typed text snippet, shown inline to recipients rather than saved. */
+  snippet?: boolean;
+}
+
+/** What the server needs to check codes for a server-assisted envelope. Sent once, at enrollment. */
+export interface ServerEnrollment {
+  /** The hex-encoded secret share mixed into the KEK. */
+  server_share: string;
+  /** The hex-encoded code verifier from codeVerifier. */
+  verifier: string;
+}
+
+/** What encryptFile returns. */
+export interface EncryptedFile {
+  ciphertext: Blob;
+  envelope: CurrentEnvelope;
+  /** The hex-encoded SHA-256 of the plaintext, which is also sealed in the encrypted file details. */
+  sha256: string;
+  enrollment?: ServerEnrollment;
+}
+
 /**
  * The main encryption function for the sender.
  * It takes a file and a download code, and returns the encrypted data and the metadata envelope.
  * @param {File} file The file to encrypt.
- * @param {string} downloadCode The secret code for decryption.
- * @param {string} [instructions] Optional instructions to encrypt alongside the file.
- * @returns {Promise<{ ciphertext: ArrayBuffer, envelope: object }>} The encrypted file content and its metadata.
+ * @param {string | null} downloadCode The secret code for decryption, or null to share with `recipients` only.
+ * @param {EncryptOptions} [options] Optional instructions, padding scheme, KDF, server assistance, progress callback and abort signal.
+ * @returns {Promise<EncryptedFile>} The encrypted file content, its metadata, the plaintext hash and,
+ * in server-assisted mode, the values to enroll with the server.
  */
-export async function encryptFile(file: File, downloadCode: string, instructions?: string) {
+export async function encryptFile(file: File, downloadCode: string | null, options: EncryptOptions = {}): Promise<EncryptedFile> {
+  const { instructions, padding = "none", kdfParams = defaultKdfParams("PBKDF2"), manifest, password, serverAssisted = false, recipients = [], signingKeyPair, viewOnly = false, snippet = false, onProgress, signal } = options;
+  if (downloadCode === null && recipients.length === 0) {
+    throw new Error("A file needs a download code, at least one recipient, or both.");
+  }
+
   // 1. Generate a unique, random key for this specific file.
   const fileKey = await generateFileKey();
-  
-  // 2. Generate a random salt for the key derivation.
-  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
-  
-  // 3. Derive a Key Encrypting Key (KEK) from the download code and salt.
-  const kek = await deriveKek(downloadCode, salt);
-  
-  // 4. Encrypt the fileKey with the KEK. This is "key wrapping".
-  const { wrappedKey, iv: wrapIv } = await wrapFileKey(fileKey, kek);
-
-  // 5. Encrypt the actual file content with the fileKey.
-  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
-  const fileBuffer = await file.arrayBuffer();
-  const ciphertext = await crypto.subtle.encrypt(
-    { name: KEY_ALG, iv: iv },
-    fileKey,
-    fileBuffer
-  );
 
-  // 6. Encrypt optional instructions with the same fileKey.
-  let encryptedInstructionsData = {};
+  // 2-4. Wrap the fileKey with a Key Encrypting Key (KEK) derived from the download code and a random salt.
+  // In server-assisted mode a random share, later held only by the server, is mixed in as well.
+  let codeWrap: Pick<CurrentEnvelope, "salt" | "kdf_params" | "wrapped_file_key" | "wrap_iv" | "server_assisted" | "password_protected"> = {
+    server_assisted: false,
+    password_protected: false,
+  };
+  let enrollment: ServerEnrollment | undefined;
+  if (downloadCode !== null) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    let kek: CryptoKey;
+    if (serverAssisted) {
+      const codeKey = await importCodeKey(await deriveKeyMaterial(kdfSecret(downloadCode, password), salt, kdfParams));
+      const serverShare = crypto.getRandomValues(new Uint8Array(SERVER_SHARE_BYTES));
+      kek = await deriveServerAssistedKek(codeKey, serverShare);
+      enrollment = { server_share: arrayBufferToHex(serverShare), verifier: await codeVerifier(codeKey) };
+    } else {
+      kek = await deriveKek(downloadCode, salt, kdfParams, password);
+    }
+    const { wrappedKey, iv: wrapIv } = await wrapFileKey(fileKey, kek);
+    codeWrap = {
+      salt: arrayBufferToHex(salt),
+      kdf_params: kdfParams,
+      wrapped_file_key: arrayBufferToHex(new Uint8Array(wrappedKey)),
+      wrap_iv: arrayBufferToHex(wrapIv),
+      server_assisted: serverAssisted,
+      password_protected: Boolean(password),
+    };
+  }
+
+  // Each recipient gets the fileKey wrapped to their public key, so they need no code at all.
+  const recipientEntries = await Promise.all(recipients.map((publicKey) => wrapFileKeyForRecipient(fileKey, publicKey)));
+
+  // 5. Encrypt the actual file content, padded to hide its exact size, with the fileKey one segment at a time.
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_BYTES));
+  const { ciphertext, sha256 } = await encryptSegments(file, fileKey, noncePrefix, paddedLength(file.size, padding), { onProgress, signal });
+
+  // 6. Encrypt the file details, including the plaintext hash, and optional instructions with the same fileKey.
+  const metadata: FileMetadata = {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    ...(manifest && { manifest }),
+    sha256,
+    ...(viewOnly && { view_only: true }),
+    ...(snippet && { snippet: true }),
+  };
+  const encryptedMetadata = await encryptField(fileKey, JSON.stringify(metadata));
+
+  let encryptedInstructionsData: Pick<CurrentEnvelope, "encrypted_instructions" | "instructions_iv"> = {};
   if (instructions && instructions.trim() !== "") {
-    const instructions_iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
-    const encrypted_instructions = await crypto.subtle.encrypt(
-      { name: KEY_ALG, iv: instructions_iv },
-      fileKey,
-      new TextEncoder().encode(instructions)
-    );
+    const encryptedInstructions = await encryptField(fileKey, instructions);
     encryptedInstructionsData = {
-      encrypted_instructions: arrayBufferToHex(new Uint8Array(encrypted_instructions)),
-      instructions_iv: arrayBufferToHex(instructions_iv),
+      encrypted_instructions: encryptedInstructions.ciphertext,
+      instructions_iv: encryptedInstructions.iv,
     };
   }
 
   // 7. Assemble the "envelope" of metadata needed for decryption.
-  // The original fileKey is NOT included here.
-  const envelope = {
-    filename: file.name,
-    mime_type: file.type,
-    size: file.size,
-    alg: KEY_ALG,
-    iv: arrayBufferToHex(iv),
-    salt: arrayBufferToHex(salt),
-    kdf_params: {
-      name: "PBKDF2",
-      iterations: KDF_ITERATIONS,
-      hash: KDF_HASH,
-    },
-    wrapped_file_key: arrayBufferToHex(new Uint8Array(wrappedKey)),
-    wrap_iv: arrayBufferToHex(wrapIv),
+  // The original fileKey and the file details in plaintext are NOT included here.
+  const envelope: CurrentEnvelope = {
+    version: ENVELOPE_VERSION,
+    size_bucket: sizeBucket(file.size),
+    encrypted_metadata: encryptedMetadata.ciphertext,
+    metadata_iv: encryptedMetadata.iv,
+    alg: STREAM_ALG,
+    iv: arrayBufferToHex(noncePrefix),
+    chunk_size: SEGMENT_BYTES,
+    padding,
+    ...codeWrap,
+    recipients: recipientEntries,
     ...encryptedInstructionsData,
   };
 
-  return { ciphertext, envelope };
+  // 8. Optionally sign the ciphertext and the encrypted details with the sender's identity.
+  if (signingKeyPair) {
+    envelope.signature = await signEnvelope(envelope, ciphertext, signingKeyPair);
+  }
+
+  return { ciphertext, envelope, sha256, ...(enrollment && { enrollment }) };
 }
 
 // --- Receiver Flow ---
 
+/**
+ * Fails early with a clear message when a password-protected envelope is opened without its password.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {string} [password] The password provided by the user.
+ */
+function assertPassword(envelope: Envelope, password?: string) {
+  if (envelope.password_protected && !password) {
+    throw new Error("This file is password protected. Enter the password the sender gave you.");
+  }
+}
+
 /**
  * Recovers the file key on the receiver's end.
  * It re-derives the KEK and uses it to unwrap the file key from the envelope.
- * @param {any} envelope The metadata envelope from the database.
+ * @param {Envelope} envelope The validated metadata envelope.
  * @param {string} downloadCode The secret code provided by the user.
+ * @param {string} [password] The extra password, for password-protected envelopes.
  * @returns {Promise<CryptoKey>} The decrypted file key.
  */
-export async function getFileKey(envelope: any, downloadCode: string): Promise<CryptoKey> {
+export async function getFileKey(envelope: Envelope, downloadCode: string, password?: string): Promise<CryptoKey> {
+    if (!envelope.wrapped_file_key) {
+        throw new Error("This file was shared with specific recipients and has no download code.");
+    }
+    if (envelope.server_assisted) {
+        throw new Error("This file can only be unlocked with the server's help.");
+    }
+    assertPassword(envelope, password);
     const salt = hexToArrayBuffer(envelope.salt);
-    const kek = await deriveKek(downloadCode, salt);
+    const kek = await deriveKek(downloadCode, salt, envelope.kdf_params, password);
     const wrappedKey = hexToArrayBuffer(envelope.wrapped_file_key);
     const wrapIv = hexToArrayBuffer(envelope.wrap_iv);
     try {
         return await unwrapFileKey(wrappedKey, wrapIv, kek);
+    } catch (error) {
+        console.error("Key unwrap failed:", error);
+        throw new Error(envelope.password_protected
+            ? "Decryption failed. The download code or password may be incorrect."
+            : "Decryption failed. The download code may be incorrect.");
+    }
+}
+
+/**
+ * Recovers the file key of a server-assisted envelope, once the server has accepted the code and released its share.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {CryptoKey} codeKey The code key from deriveCodeKey.
+ * @param {string} serverShare The hex-encoded secret share returned by the server.
+ * @returns {Promise<CryptoKey>} The decrypted file key.
+ */
+export async function getServerAssistedFileKey(envelope: Envelope, codeKey: CryptoKey, serverShare: string): Promise<CryptoKey> {
+    const kek = await deriveServerAssistedKek(codeKey, hexToArrayBuffer(serverShare));
+    try {
+        return await unwrapFileKey(hexToArrayBuffer(envelope.wrapped_file_key), hexToArrayBuffer(envelope.wrap_iv), kek);
     } catch (error) {
         console.error("Key unwrap failed:", error);
         throw new Error("Decryption failed. The download code may be incorrect.");
     }
 }
 
+/**
+ * Recovers the file key with a recipient's private key.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {CryptoKeyPair} keyPair The recipient's ECDH key pair.
+ * @returns {Promise<CryptoKey>} The decrypted file key.
+ * @throws {Error} If the file was not shared with this key.
+ */
+export async function getRecipientFileKey(envelope: Envelope, keyPair: CryptoKeyPair): Promise<CryptoKey> {
+    const keyId = await recipientKeyId(keyPair.publicKey);
+    const entry = envelope.recipients.find((recipient) => recipient.key_id === keyId);
+    if (!entry) {
+        throw new Error("This file was not shared with your key.");
+    }
+    const ephemeralRaw = hexToArrayBuffer(entry.ephemeral_public_key);
+    const recipientRaw = new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey));
+    const ephemeralKey = await crypto.subtle.importKey("raw", ephemeralRaw, { name: "ECDH", namedCurve: RECIPIENT_CURVE }, false, []);
+    const kek = await deriveRecipientKek(keyPair.privateKey, ephemeralKey, ephemeralRaw, recipientRaw);
+    try {
+        return await unwrapFileKey(hexToArrayBuffer(entry.wrapped_file_key), hexToArrayBuffer(entry.wrap_iv), kek);
+    } catch (error) {
+        console.error("Key unwrap failed:", error);
+        throw new Error("Decryption failed. Your key could not open this file.");
+    }
+}
+
+/**
+ * Decrypts a file in the streaming format as it arrives.
+ * At most one encrypted segment is buffered, so memory use stays flat regardless of file size.
+ * Padding is stripped only from segments whose tag has been verified.
+ * The returned stream errors if any segment fails authentication or the stream was truncated.
+ * @param {ReadableStream<Uint8Array>} ciphertext The encrypted file data.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {CryptoKey} fileKey The now-decrypted file key.
+ * @param {FileMetadata} metadata The decrypted file details, whose size marks where padding starts.
+ * @returns {ReadableStream<Uint8Array>} The decrypted file content.
+ */
+export function decryptFileStream(ciphertext: ReadableStream<Uint8Array>, envelope: Envelope, fileKey: CryptoKey, metadata: FileMetadata): ReadableStream<Uint8Array> {
+  const noncePrefix = hexToArrayBuffer(envelope.iv);
+  const encryptedSegmentBytes = envelope.chunk_size + TAG_BYTES;
+  const expectedBytes = paddedLength(metadata.size, envelope.padding);
+  let buffer = new Uint8Array(0);
+  let index = 0;
+  let decryptedBytes = 0;
+
+  const emit = (plaintext: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const fileBytes = Math.max(0, Math.min(plaintext.length, metadata.size - decryptedBytes));
+    decryptedBytes += plaintext.length;
+    if (fileBytes > 0) controller.enqueue(plaintext.subarray(0, fileBytes));
+  };
+
+  const failed = (error: unknown) => {
+    console.error("File decryption failed:", error);
+    return new Error("File decryption failed. The data may be corrupted.");
+  };
+
+  return ciphertext.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      buffer = concatBytes(buffer, chunk);
+      // A full segment is only known not to be the last one once more data follows it.
+      while (buffer.length > encryptedSegmentBytes) {
+        const segment = buffer.subarray(0, encryptedSegmentBytes);
+        try {
+          emit(await decryptSegment(fileKey, noncePrefix, index, false, segment), controller);
+        } catch (error) {
+          throw failed(error);
+        }
+        buffer = buffer.slice(encryptedSegmentBytes);
+        index++;
+      }
+    },
+    async flush(controller) {
+      if (buffer.length < TAG_BYTES) {
+        throw failed(new Error("Ciphertext is truncated."));
+      }
+      try {
+        emit(await decryptSegment(fileKey, noncePrefix, index, true, buffer), controller);
+      } catch (error) {
+        throw failed(error);
+      }
+      if (decryptedBytes !== expectedBytes) {
+        throw failed(new Error(`Expected ${expectedBytes} padded bytes, got ${decryptedBytes}.`));
+      }
+    },
+  }));
+}
+
+/** Thrown when a signed file's ciphertext is not what its sender signed. */
+export class SignatureMismatchError extends Error {
+  constructor() {
+    super("The downloaded file does not match its sender's signature, so it was discarded.");
+    this.name = "SignatureMismatchError";
+  }
+}
+
+/**
+ * Decrypts a downloaded file into a sink as it arrives. The ciphertext of a signed file must hash to what its
+ * sender signed, and the decrypted file to the hash recorded in its metadata; a mismatch fails the sink
+ * before the file is completed, so nothing is saved. Files from before the streaming format are
+ * decrypted in memory first.
+ * @param {ReadableStream<Uint8Array>} ciphertext The encrypted file data.
+ * @param {WritableStream<Uint8Array>} sink Receives the decrypted file.
+ * @param {number} totalBytes The expected ciphertext size, passed through to onProgress.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {CryptoKey} fileKey The now-decrypted file key.
+ * @param {FileMetadata} metadata The decrypted file details.
+ * @param {ProgressOptions} [options] Progress reporting, in ciphertext bytes, and cancellation.
+ * @returns {Promise<string>} The hex-encoded SHA-256 of the decrypted file.
+ */
+export async function decryptFileTo(ciphertext: ReadableStream<Uint8Array>, sink: WritableStream<Uint8Array>, totalBytes: number, envelope: Envelope, fileKey: CryptoKey, metadata: FileMetadata, { onProgress, signal }: ProgressOptions = {}): Promise<string> {
+  let monitored = ciphertext.pipeThrough(trackProgress(totalBytes, { onProgress, signal }));
+  if (envelope.signature) {
+    const expected = envelope.signature.ciphertext_sha256;
+    monitored = monitored.pipeThrough(hashingStream((digest) => {
+      if (digest !== expected) throw new SignatureMismatchError();
+    }));
+  }
+
+  const decrypted = envelope.alg === STREAM_ALG
+    ? decryptFileStream(monitored, envelope, fileKey, metadata)
+    : (await decryptFile(await new Response(monitored).blob(), envelope, fileKey, metadata, { signal })).stream();
+
+  let digest = "";
+  await decrypted
+    .pipeThrough(hashingStream((computed) => {
+      if (metadata.sha256 && computed !== metadata.sha256) {
+        throw new Error("The decrypted file does not match the hash recorded by its sender.");
+      }
+      digest = computed;
+    }))
+    .pipeTo(sink, { signal });
+  return digest;
+}
+
 /**
  * Decrypts the file content using the recovered file key.
- * @param {ArrayBuffer} ciphertext The encrypted file data.
- * @param {any} envelope The metadata envelope.
+ * @param {ArrayBuffer | Blob} ciphertext The encrypted file data.
+ * @param {Envelope} envelope The validated metadata envelope.
  * @param {CryptoKey} fileKey The now-decrypted file key.
+ * @param {FileMetadata} metadata The decrypted file details.
+ * @param {ProgressOptions} [options] Progress reporting, in ciphertext bytes, and cancellation.
  * @returns {Promise<Blob>} The decrypted file as a Blob.
  */
-export async function decryptFile(ciphertext: ArrayBuffer, envelope: any, fileKey: CryptoKey): Promise<Blob> {
+export async function decryptFile(ciphertext: ArrayBuffer | Blob, envelope: Envelope, fileKey: CryptoKey, metadata: FileMetadata, options: ProgressOptions = {}): Promise<Blob> {
+  if (envelope.alg === STREAM_ALG) {
+    const encrypted = ciphertext instanceof Blob ? ciphertext : new Blob([ciphertext]);
+    const monitored = encrypted.stream().pipeThrough(trackProgress(encrypted.size, options));
+    const decrypted = await new Response(decryptFileStream(monitored, envelope, fileKey, metadata)).blob();
+    return new Blob([decrypted], { type: metadata.type });
+  }
+
+  // Files shared before the streaming format were sealed in a single AES-GCM call.
+  options.signal?.throwIfAborted();
   try {
     const iv = hexToArrayBuffer(envelope.iv);
     const decryptedBuffer = await crypto.subtle.decrypt(
       { name: KEY_ALG, iv: iv.slice() },
       fileKey,
-      ciphertext
+      ciphertext instanceof Blob ? await ciphertext.arrayBuffer() : ciphertext
     );
-    return new Blob([decryptedBuffer], { type: envelope.mime_type });
+    return new Blob([decryptedBuffer], { type: metadata.type });
   } catch (error) {
     console.error("File decryption failed:", error);
     throw new Error("File decryption failed. The data may be corrupted.");
   }
 }
 
+/**
+ * Decrypts the file details (name, type and exact size).
+ * Version 1 envelopes stored these in plaintext and are returned as-is.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {CryptoKey} fileKey The decrypted file key.
+ * @returns {Promise<FileMetadata>} The file details.
+ */
+export async function decryptMetadata(envelope: Envelope, fileKey: CryptoKey): Promise<FileMetadata> {
+  if ("legacy_metadata" in envelope) {
+    return envelope.legacy_metadata;
+  }
+  try {
+    const decrypted = await decryptField(fileKey, envelope.encrypted_metadata, envelope.metadata_iv);
+    return fileMetadataSchema.parse(JSON.parse(decrypted));
+  } catch (error) {
+    console.error("Metadata decryption failed:", error);
+    throw new Error("File details could not be decrypted. The data may be corrupted.");
+  }
+}
+
 /**
  * Decrypts the sender's instructions, if they exist.
- * @param {any} envelope The metadata envelope.
+ * @param {Envelope} envelope The validated metadata envelope.
  * @param {CryptoKey} fileKey The decrypted file key.
  * @returns {Promise<string | null>} The decrypted instructions or null.
  */
-export async function decryptInstructions(envelope: any, fileKey: CryptoKey): Promise<string | null> {
+export async function decryptInstructions(envelope: Envelope, fileKey: CryptoKey): Promise<string | null> {
     if (!envelope.encrypted_instructions || !envelope.instructions_iv) {
         return null;
     }
     try {
-        const instructions_iv = hexToArrayBuffer(envelope.instructions_iv);
-        const encrypted_instructions = hexToArrayBuffer(envelope.encrypted_instructions);
-        const decryptedBuffer = await crypto.subtle.decrypt(
-            { name: KEY_ALG, iv: instructions_iv.slice() },
-            fileKey,
-            encrypted_instructions.slice()
-        );
-        return new TextDecoder().decode(decryptedBuffer);
+        return await decryptField(fileKey, envelope.encrypted_instructions, envelope.instructions_iv);
     } catch (error) {
         console.error("Instructions decryption failed:", error);
         return "Could not decrypt instructions.";
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+/**
+ * SecureShare - Downloading Files
+ * Reserves downloads with the increment-download-count function and hands decrypted data
+ * to the browser's download manager. Large files are written to disk as they decrypt: into a file
+ * chosen through the File System Access API where the browser has it, or otherwise through a
+ * service worker that serves the decrypted stream as an ordinary download.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/** The service worker that serves streamed downloads, and the path under which it serves them. */
+const DOWNLOAD_WORKER_URL = "/download-sw.js";
+const DOWNLOAD_PATH = "/__secureshare-download/";
+
+/** How long the hidden frame that started a streamed download is kept, in milliseconds. */
+const DOWNLOAD_FRAME_LIFETIME = 60 * 1000;
+
+/** The File System Access API's save dialog, which not every browser has. */
+type ShowSaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+/** A reserved download: a short-lived URL for the ciphertext and the lease that holds the download. */
+export interface DownloadLease {
+  leaseId: string;
+  signedUrl: string;
+}
+
+/**
+ * Calls the download counter and unwraps its error message.
+ * @param {object} body The request body.
+ */
+async function invokeCounter<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>("increment-download-count", { body });
+  if (error || !data) {
+    const errorResponse = await error?.context?.json();
+    throw new Error(errorResponse?.error || "This link has expired or reached its download limit.");
+  }
+  return data;
+}
+
+/**
+ * Reserves one download of a file. The download is held, not consumed, until it is confirmed;
+ * a reservation that is neither confirmed nor released lapses on its own.
+ * @param {string} fileId The share's file ID.
+ * @returns {Promise<DownloadLease>} The lease and the signed URL of the ciphertext.
+ */
+export const reserveDownload = (fileId: string) =>
+  invokeCounter<DownloadLease>({ fileId, action: "reserve" });
+
+/**
+ * Consumes a reserved download. Call this only once the file has decrypted successfully.
+ * @param {string} fileId The share's file ID.
+ * @param {DownloadLease} lease The reservation.
+ */
+export async function confirmDownload(fileId: string, lease: DownloadLease) {
+  await invokeCounter({ fileId, action: "confirm", leaseId: lease.leaseId });
+}
+
+/**
+ * Gives a reserved download back after a failed or cancelled attempt. Errors are only logged,
+ * since the lease lapses on its own anyway.
+ * @param {string} fileId The share's file ID.
+ * @param {DownloadLease} lease The reservation.
+ */
+export async function releaseDownload(fileId: string, lease: DownloadLease) {
+  try {
+    await invokeCounter({ fileId, action: "release", leaseId: lease.leaseId });
+  } catch (err) {
+    console.error("Failed to release download reservation:", err);
+  }
+}
+
+/**
+ * Saves a Blob to the user's device through a temporary object URL.
+ * @param {Blob} blob The decrypted data.
+ * @param {string} filename The suggested file name.
+ */
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Asks the user where to save a file, on browsers with the File System Access API.
+ * Browsers only show the dialog in response to a click, so call this before anything slow.
+ * @param {string} filename The suggested file name.
+ * @returns {Promise<FileSystemFileHandle | null>} The chosen file, or null if the browser has no save dialog.
+ * @throws {DOMException} An AbortError if the user dismisses the dialog.
+ */
+export async function chooseSaveFile(filename: string): Promise<FileSystemFileHandle | null> {
+  const { showSaveFilePicker } = window as unknown as { showSaveFilePicker?: ShowSaveFilePicker };
+  if (!showSaveFilePicker) return null;
+  return showSaveFilePicker({ suggestedName: filename });
+}
+
+/**
+ * Starts a download served by the download service worker and returns a stream that feeds it.
+ * The worker asks for each chunk as the browser consumes the last one, so memory use stays flat.
+ * @param {string} filename The file name.
+ * @param {number} size The exact size of the file.
+ */
+async function serviceWorkerStream(filename: string, size: number): Promise<WritableStream<Uint8Array>> {
+  await navigator.serviceWorker.register(DOWNLOAD_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  let requested = 0;
+  let cancelled: Error | null = null;
+  let wake: (() => void) | null = null;
+  const ready = new Promise<void>((resolve) => {
+    port.onmessage = ({ data }) => {
+      if (data.type === "ready") resolve();
+      if (data.type === "pull") requested++;
+      if (data.type === "cancel") cancelled = new Error("The download was cancelled in the browser.");
+      wake?.();
+    };
+  });
+  registration.active.postMessage({ type: "secureshare-download", id, filename, size }, [channel.port2]);
+  await ready;
+
+  const frame = document.createElement("iframe");
+  frame.hidden = true;
+  frame.src = `${DOWNLOAD_PATH}${id}`;
+  document.body.appendChild(frame);
+  const removeFrame = () => setTimeout(() => frame.remove(), DOWNLOAD_FRAME_LIFETIME);
+
+  return new WritableStream<Uint8Array>({
+    async write(chunk) {
+      while (requested === 0 && !cancelled) {
+        await new Promise<void>((resolve) => { wake = resolve; });
+      }
+      if (cancelled) throw cancelled;
+      requested--;
+      const copy = chunk.slice();
+      port.postMessage({ type: "chunk", chunk: copy }, [copy.buffer]);
+    },
+    close() {
+      port.postMessage({ type: "close" });
+      removeFrame();
+    },
+    abort(reason) {
+      port.postMessage({ type: "abort", reason: String(reason) });
+      removeFrame();
+    },
+  });
+}
+
+/**
+ * Opens a stream that writes a download to disk as it arrives. Aborting the stream discards the file,
+ * so nothing is left behind when decryption or a final check fails.
+ * @param {string} filename The file name.
+ * @param {number} size The exact size of the file.
+ * @param {FileSystemFileHandle | null} handle The file chosen with chooseSaveFile, if any.
+ * @returns {Promise<WritableStream<Uint8Array> | null>} The stream, or null if the browser can only save a Blob.
+ */
+export async function openSaveStream(filename: string, size: number, handle: FileSystemFileHandle | null): Promise<WritableStream<Uint8Array> | null> {
+  if (handle) return handle.createWritable();
+  if (!("serviceWorker" in navigator)) return null;
+  try {
+    return await serviceWorkerStream(filename, size);
+  } catch (err) {
+    // Service workers are unavailable in some private browsing modes.
+    console.warn("Streaming download unavailable, falling back to saving in memory:", err);
+    return null;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * SecureShare - Envelope Parsing
+ * Validates the metadata envelope stored alongside each file before any cryptography touches it.
+ * Rows from before envelopes were versioned keep a decoder here, so links shared back then keep working.
+ */
+
+import { z } from "zod";
+import {
+  ENVELOPE_VERSION,
+  type EnvelopeSignature,
+  type FileMetadata,
+  IV_BYTES,
+  KEY_ALG,
+  KEY_LEN,
+  NONCE_PREFIX_BYTES,
+  PADDING_SCHEMES,
+  RECIPIENT_KEY_ID_BYTES,
+  RECIPIENT_PUBLIC_KEY_BYTES,
+  type RecipientEntry,
+  SALT_BYTES,
+  SEGMENT_BYTES,
+  SIGNATURE_BYTES,
+  SIGNING_PUBLIC_KEY_BYTES,
+  STREAM_ALG,
+  TAG_BYTES,
+  WRAP_IV_BYTES,
+} from "@/lib/crypto";
+import {
+  ARGON2_ITERATIONS_RANGE,
+  ARGON2_MEMORY_KIB_RANGE,
+  ARGON2_PARALLELISM_RANGE,
+  PBKDF2_HASHES,
+  PBKDF2_ITERATIONS_RANGE,
+  type KdfParams,
+} from "@/lib/kdf";
+
+/** Thrown when an envelope is malformed or uses a format this version of the app cannot read. */
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+  }
+}
+
+/**
+ * A hex-encoded byte string, optionally of an exact decoded length.
+ * @param {string} field The envelope field name, used in error messages.
+ * @param {number} [bytes] The required number of decoded bytes.
+ */
+const hexField = (field: string, bytes?: number) =>
+  z
+    .string({
+      required_error: `Envelope is missing "${field}".`,
+      invalid_type_error: `Envelope field "${field}" must be a string.`,
+    })
+    .regex(/^(?:[0-9a-f]{2})*$/i, `Envelope field "${field}" is not valid hex.`)
+    .refine(
+      (value) => bytes === undefined || value.length === bytes * 2,
+      (value) => ({ message: `Envelope field "${field}" must be ${bytes} bytes, got ${value.length / 2}.` })
+    );
+
+/** Database rows hold NULL for absent optional columns; treat those as missing. */
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+/**
+ * A KDF cost parameter that must lie in a safe range. Too low makes guessing the code cheap;
+ * too high lets a crafted envelope hang the receiver's browser.
+ * @param {string} label The parameter name, used in error messages.
+ * @param {{ min: number, max: number }} range The accepted values.
+ */
+const costField = (label: string, range: { min: number, max: number }) =>
+  z
+    .number({ required_error: `Envelope is missing the ${label} setting.` })
+    .int(`Envelope ${label} must be a whole number.`)
+    .min(range.min, `Envelope ${label} is below the safe minimum of ${range.min}.`)
+    .max(range.max, `Envelope ${label} is above the safe maximum of ${range.max}.`);
+
+/** KDF settings, with cost limits the receiver is willing to pay. Also checks key backups. */
+export const kdfParamsSchema = z
+  .discriminatedUnion(
+    "name",
+    [
+      z.object({
+        name: z.literal("PBKDF2"),
+        iterations: costField("PBKDF2 iterations", PBKDF2_ITERATIONS_RANGE),
+        hash: z.enum(PBKDF2_HASHES, {
+          errorMap: () => ({ message: "Envelope uses an unsupported key derivation hash." }),
+        }),
+      }),
+      z.object({
+        name: z.literal("Argon2id"),
+        memory_kib: costField("Argon2id memory", ARGON2_MEMORY_KIB_RANGE),
+        iterations: costField("Argon2id iterations", ARGON2_ITERATIONS_RANGE),
+        parallelism: costField("Argon2id parallelism", ARGON2_PARALLELISM_RANGE),
+      }),
+    ],
+    {
+      errorMap: (issue, ctx) => {
+        if (issue.code === z.ZodIssueCode.invalid_union_discriminator) {
+          return { message: "Envelope uses an unsupported key derivation function." };
+        }
+        if (issue.code === z.ZodIssueCode.invalid_type && issue.received === "undefined") {
+          return { message: 'Envelope is missing "kdf_params".' };
+        }
+        return { message: ctx.defaultError };
+      },
+    }
+  )
+  // Without strictNullChecks zod infers every property as optional; the schema guarantees them.
+  .transform((params) => params as KdfParams);
+
+/**
+ * The encryption algorithm, which each envelope version fixes.
+ * @param {string} alg The algorithm the version uses.
+ */
+const algField = <A extends string>(alg: A) =>
+  z.literal(alg, {
+    errorMap: (issue, ctx) => ({
+      message: ctx.data === undefined ? 'Envelope is missing "alg".' : `Unsupported encryption algorithm "${String(ctx.data)}".`,
+    }),
+  });
+
+/** The key-wrapping fields shared by both envelope versions. */
+const codeWrapFields = {
+  salt: hexField("salt", SALT_BYTES),
+  kdf_params: kdfParamsSchema,
+  wrapped_file_key: hexField("wrapped_file_key", KEY_LEN / 8 + TAG_BYTES),
+  wrap_iv: hexField("wrap_iv", WRAP_IV_BYTES),
+};
+
+const instructionsFields = {
+  encrypted_instructions: optional(hexField("encrypted_instructions")),
+  instructions_iv: optional(hexField("instructions_iv", IV_BYTES)),
+};
+
+/** Version 1: rows written before envelopes carried a version number, sealed in one AES-GCM call with the file details in plaintext. */
+const envelopeV1Schema = z.object({
+  alg: algField(KEY_ALG),
+  iv: hexField("iv", IV_BYTES),
+  ...codeWrapFields,
+  ...instructionsFields,
+  filename: z.string({ required_error: 'Envelope is missing "filename".' }),
+  mime_type: z.string().nullish().transform((value) => value ?? ""),
+  size: z.number().int().nonnegative(),
+});
+
+const recipientEntrySchema = z.object({
+  key_id: hexField("recipients.key_id", RECIPIENT_KEY_ID_BYTES),
+  ephemeral_public_key: hexField("recipients.ephemeral_public_key", RECIPIENT_PUBLIC_KEY_BYTES),
+  wrapped_file_key: hexField("recipients.wrapped_file_key", KEY_LEN / 8 + TAG_BYTES),
+  wrap_iv: hexField("recipients.wrap_iv", WRAP_IV_BYTES),
+});
+
+const signatureSchema = z
+  .object({
+    public_key: hexField("signature.public_key", SIGNING_PUBLIC_KEY_BYTES),
+    ciphertext_sha256: hexField("signature.ciphertext_sha256", 32),
+    signature: hexField("signature.signature", SIGNATURE_BYTES),
+  })
+  .transform((signature) => signature as EnvelopeSignature);
+
+const codeWrapKeys = Object.keys(codeWrapFields) as (keyof typeof codeWrapFields)[];
+
+/** Checks that an envelope can be opened somehow, and that its code wrap is complete if present. */
+const checkKeyWrapFields = (
+  envelope: Partial<Record<(typeof codeWrapKeys)[number] | "recipients", unknown>>,
+  ctx: z.RefinementCtx
+) => {
+  const present = codeWrapKeys.filter((key) => envelope[key] !== undefined);
+  if (present.length > 0 && present.length < codeWrapKeys.length) {
+    const missing = codeWrapKeys.find((key) => envelope[key] === undefined);
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [missing], message: `Envelope is missing "${missing}".` });
+  }
+  if (present.length === 0 && (envelope.recipients as unknown[]).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Envelope has neither a download code nor any recipients." });
+  }
+};
+
+/**
+ * Version 2: the current format, written by encryptFile. The file is encrypted in segments, its details are
+ * encrypted under the file key, and the file key is wrapped under the download code, to recipients' keys, or both.
+ */
+const envelopeV2Schema = z
+  .object({
+    version: z.literal(2),
+    alg: algField(STREAM_ALG),
+    iv: hexField("iv", NONCE_PREFIX_BYTES),
+    // Every segment is held in memory while it decrypts, so only the size this app writes is accepted.
+    chunk_size: z.literal(SEGMENT_BYTES, {
+      errorMap: () => ({ message: `Envelope field "chunk_size" must be ${SEGMENT_BYTES} bytes.` }),
+    }),
+    salt: optional(codeWrapFields.salt),
+    kdf_params: optional(codeWrapFields.kdf_params),
+    wrapped_file_key: optional(codeWrapFields.wrapped_file_key),
+    wrap_iv: optional(codeWrapFields.wrap_iv),
+    ...instructionsFields,
+    size_bucket: z.number().int().nonnegative(),
+    encrypted_metadata: hexField("encrypted_metadata"),
+    metadata_iv: hexField("metadata_iv", IV_BYTES),
+    padding: z.enum(PADDING_SCHEMES, {
+      errorMap: () => ({ message: "Envelope uses an unsupported padding scheme." }),
+    }),
+    server_assisted: z.boolean({ required_error: 'Envelope is missing "server_assisted".' }),
+    password_protected: z.boolean({ required_error: 'Envelope is missing "password_protected".' }),
+    recipients: z
+      .array(recipientEntrySchema)
+      .nullish()
+      // Without strictNullChecks zod infers every property as optional; the schema guarantees them.
+      .transform((entries) => (entries ?? []) as RecipientEntry[]),
+    signature: optional(signatureSchema),
+  })
+  .superRefine(checkKeyWrapFields);
+
+/** An envelope in the current format, as written by encryptFile. */
+export type CurrentEnvelope = z.infer<typeof envelopeV2Schema>;
+
+/** A version 1 envelope, upgraded with its plaintext file details carried over. */
+export type LegacyEnvelope = Omit<CurrentEnvelope, "alg" | "chunk_size" | "encrypted_metadata" | "metadata_iv" | "signature"> & {
+  alg?: typeof KEY_ALG;
+  chunk_size?: undefined;
+  signature?: undefined;
+  legacy_metadata: FileMetadata;
+};
+
+/** A validated envelope of either version. */
+export type Envelope = CurrentEnvelope | LegacyEnvelope;
+
+/**
+ * Upgrades a version 1 envelope by moving its plaintext file details aside.
+ * @param {z.infer<typeof envelopeV1Schema>} envelope The validated legacy envelope.
+ */
+const fromPlaintextMetadata = ({
+  filename,
+  mime_type,
+  size,
+  ...rest
+}: z.infer<typeof envelopeV1Schema>): LegacyEnvelope => ({
+  ...rest,
+  version: ENVELOPE_VERSION,
+  size_bucket: size,
+  padding: "none",
+  server_assisted: false,
+  password_protected: false,
+  recipients: [],
+  legacy_metadata: { name: filename, type: mime_type, size },
+});
+
+/**
+ * Runs a schema and converts the first validation issue into an EnvelopeError.
+ * @param {z.ZodTypeAny} schema The schema for one envelope version.
+ * @param {unknown} row The raw envelope.
+ */
+function parseWith<T extends z.ZodTypeAny>(schema: T, row: unknown): z.infer<T> {
+  const result = schema.safeParse(row);
+  if (!result.success) {
+    throw new EnvelopeError(result.error.issues[0]?.message ?? "Envelope is malformed.");
+  }
+  return result.data;
+}
+
+/** Decoders that upgrade each known version to the current Envelope shape. */
+const decoders: Record<number, (row: unknown) => Envelope> = {
+  1: (row) => fromPlaintextMetadata(parseWith(envelopeV1Schema, row)),
+  2: (row) => parseWith(envelopeV2Schema, row),
+};
+
+/**
+ * Validates a raw envelope (such as a row from the `files` table) and upgrades it to the current format.
+ * Columns that are not part of the envelope are dropped.
+ * @param {unknown} row The raw envelope.
+ * @returns {Envelope} The validated envelope.
+ * @throws {EnvelopeError} If the envelope is malformed or its version is unknown.
+ */
+export function parseEnvelope(row: unknown): Envelope {
+  if (typeof row !== "object" || row === null) {
+    throw new EnvelopeError("Envelope is missing.");
+  }
+
+  const version = (row as { version?: unknown }).version ?? 1;
+  const decoder = typeof version === "number" ? decoders[version] : undefined;
+  if (!decoder) {
+    throw new EnvelopeError(`Unsupported envelope version "${String(version)}". Try updating the app.`);
+  }
+
+  return decoder(row);
+}
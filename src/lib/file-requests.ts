@@ -0,0 +1,134 @@
+/**
+ * SecureShare - File Requests
+ * Lets a user ask someone to send them a file. Each request has its own key pair: the public key
+ * travels in the request link's fragment, the private key stays in the requester's keystore, and
+ * uploads are encrypted to it with no download code to pass back.
+ */
+
+import {
+  exportRecipientPublicKey,
+  generateManagementToken,
+  hashManagementToken,
+  keyFingerprint,
+  RECIPIENT_CURVE,
+  recipientKeyId,
+} from "@/lib/crypto";
+import { saveRequestKey, type RequestKey } from "@/lib/keystore";
+import { supabase } from "@/integrations/supabase/client";
+
+/** The most uploads a single request accepts; the database enforces the same limit. */
+export const MAX_REQUEST_UPLOADS = 20;
+
+/** How long a request may stay open; the database enforces the same limit. */
+export const MAX_REQUEST_DAYS = 30;
+
+/** How long files sent to a request are kept, and how often they can be downloaded. Set by the database, lowered to the share policy if that is tighter. */
+export const REQUEST_FILE_RETENTION_DAYS = 7;
+export const REQUEST_FILE_MAX_DOWNLOADS = 3;
+
+/** What an uploader may learn about a request before sending to it. */
+export interface FileRequestStatus {
+  expires_at: string;
+  remaining_uploads: number;
+}
+
+/** A file received through a request. */
+export interface ReceivedFile {
+  id: string;
+  expires_at: string;
+  max_downloads: number;
+  download_count: number;
+  size_bucket: number | null;
+}
+
+/** The server-side state of a request, as reported to its requester. */
+export interface FileRequestInbox {
+  expires_at: string;
+  max_uploads: number;
+  upload_count: number;
+  files: ReceivedFile[];
+}
+
+/**
+ * Builds the link the requester sends out. The public key sits in the URL fragment, which browsers do not send to servers.
+ * @param {string} requestId The request's ID.
+ * @param {string} publicKey The hex-encoded public key of the request.
+ */
+export const fileRequestUrl = (requestId: string, publicKey: string) => `${window.location.origin}/r/${requestId}#${publicKey}`;
+
+/**
+ * Opens a new file request and keeps its key pair in this browser.
+ * @param {string} label A name for the request, shown only to the requester.
+ * @param {number} expiresInDays How long the request accepts uploads.
+ * @param {number} maxUploads How many files the request accepts.
+ * @returns {Promise<RequestKey>} The stored request.
+ */
+export async function createFileRequest(label: string, expiresInDays: number, maxUploads: number): Promise<RequestKey> {
+  const keyPair = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: RECIPIENT_CURVE }, false, ["deriveBits"]);
+  const requestId = crypto.randomUUID();
+  const manageToken = generateManagementToken();
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { error } = await supabase.from("file_requests").insert({
+    id: requestId,
+    manage_token_hash: await hashManagementToken(manageToken),
+    expires_at: expiresAt,
+    max_uploads: maxUploads,
+  });
+  if (error) throw new Error(`Database error: ${error.message}`);
+
+  const requestKey: RequestKey = {
+    requestId,
+    label,
+    keyPair,
+    publicKey: await exportRecipientPublicKey(keyPair.publicKey),
+    keyId: await recipientKeyId(keyPair.publicKey),
+    fingerprint: await keyFingerprint(keyPair.publicKey),
+    manageToken,
+    createdAt: new Date().toISOString(),
+    expiresAt,
+  };
+  await saveRequestKey(requestKey);
+  return requestKey;
+}
+
+/**
+ * Checks whether a request still accepts uploads.
+ * @param {string} requestId The request's ID.
+ * @returns {Promise<FileRequestStatus | null>} The request's state, or null if it does not exist.
+ */
+export async function getFileRequestStatus(requestId: string): Promise<FileRequestStatus | null> {
+  const { data, error } = await supabase.rpc("file_request_status", { request_id_param: requestId });
+  if (error) throw new Error("The file request could not be checked.");
+  return (data as FileRequestStatus[])?.[0] ?? null;
+}
+
+/**
+ * Calls the file-requests function and unwraps its error message.
+ * @param {RequestKey} requestKey The request, with its management token.
+ * @param {string} action The action to perform.
+ */
+async function invokeFileRequests<T>(requestKey: RequestKey, action: "inbox" | "close"): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>("file-requests", {
+    body: { requestId: requestKey.requestId, token: requestKey.manageToken, action },
+  });
+  if (error || !data) {
+    const errorResponse = await error?.context?.json();
+    throw new Error(errorResponse?.error || "The file request could not be reached.");
+  }
+  return data;
+}
+
+/**
+ * Lists the files received through a request that can still be downloaded.
+ * @param {RequestKey} requestKey The request.
+ */
+export const fetchFileRequestInbox = (requestKey: RequestKey) =>
+  invokeFileRequests<FileRequestInbox>(requestKey, "inbox");
+
+/**
+ * Stops a request from accepting further uploads. Files already received are kept until they expire.
+ * @param {RequestKey} requestKey The request.
+ */
+export const closeFileRequest = (requestKey: RequestKey) =>
+  invokeFileRequests<Omit<FileRequestInbox, "files">>(requestKey, "close");
@@ -0,0 +1,202 @@
+/**
+ * SecureShare - Key Derivation
+ * Stretches the download code into key material for the Key Encrypting Key (KEK).
+ * PBKDF2 runs on the Web Crypto API; Argon2id runs on a WASM build that is only loaded when first needed.
+ */
+
+// --- KDF Configuration ---
+
+/** Number of iterations for the Password-Based Key Derivation Function 2 (PBKDF2).
+ * A higher number increases the cost of brute-force attacks. */
+export const KDF_ITERATIONS = 250000;
+
+/** The hash function to use within PBKDF2. SHA-256 is a secure standard. */
+export const KDF_HASH = "SHA-256" as const;
+
+/** Hash functions a receiver accepts for PBKDF2. */
+export const PBKDF2_HASHES = ["SHA-256", "SHA-384", "SHA-512"] as const;
+
+/** The PBKDF2 iteration counts a receiver accepts. The floor is the historic default, so calibration
+ * never weakens a link; the ceiling stops a crafted envelope from freezing the receiver's browser. */
+export const PBKDF2_ITERATIONS_RANGE = { min: KDF_ITERATIONS, max: 10_000_000 };
+
+/** Memory cost of Argon2id in KiB. Memory hardness is what makes GPU and ASIC guessing expensive. */
+export const ARGON2_MEMORY_KIB = 64 * 1024; // 64 MiB
+
+/** Number of passes Argon2id makes over its memory. */
+export const ARGON2_ITERATIONS = 3;
+
+/** Number of lanes Argon2id uses. The WASM build runs single-threaded, so more lanes only add cost. */
+export const ARGON2_PARALLELISM = 1;
+
+/** The Argon2id costs a receiver accepts. The memory ceiling keeps derivation within reach of phones. */
+export const ARGON2_MEMORY_KIB_RANGE = { min: ARGON2_MEMORY_KIB, max: 256 * 1024 };
+export const ARGON2_ITERATIONS_RANGE = { min: ARGON2_ITERATIONS, max: 64 };
+export const ARGON2_PARALLELISM_RANGE = { min: 1, max: 4 };
+
+/** How long calibration aims for a single key derivation to take on the sender's device. */
+export const KDF_TARGET_MS = 500;
+
+/** The length of the derived key material in bytes, matching the 256-bit KEK. */
+const DERIVED_KEY_BYTES = 32;
+
+export type KdfName = "PBKDF2" | "Argon2id";
+
+export interface Pbkdf2Params {
+  name: "PBKDF2";
+  iterations: number;
+  hash: (typeof PBKDF2_HASHES)[number];
+}
+
+export interface Argon2idParams {
+  name: "Argon2id";
+  /** Memory cost in KiB. */
+  memory_kib: number;
+  /** Time cost: the number of passes over memory. */
+  iterations: number;
+  parallelism: number;
+}
+
+/** The KDF settings recorded in the envelope's `kdf_params`. */
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+/**
+ * Returns the default settings for a KDF, as written into new envelopes.
+ * @param {KdfName} name The KDF to use.
+ * @returns {KdfParams} The KDF settings.
+ */
+export function defaultKdfParams(name: KdfName): KdfParams {
+  if (name === "Argon2id") {
+    return {
+      name,
+      memory_kib: ARGON2_MEMORY_KIB,
+      iterations: ARGON2_ITERATIONS,
+      parallelism: ARGON2_PARALLELISM,
+    };
+  }
+  return { name, iterations: KDF_ITERATIONS, hash: KDF_HASH };
+}
+
+/**
+ * Derives key material with PBKDF2 through the Web Crypto API.
+ * @param {Uint8Array} secret The encoded download code.
+ * @param {Uint8Array} salt The salt from the envelope.
+ * @param {Pbkdf2Params} params The iteration count and hash.
+ * @returns {Promise<ArrayBuffer>} The derived key material.
+ */
+async function derivePbkdf2(secret: Uint8Array, salt: Uint8Array, params: Pbkdf2Params): Promise<ArrayBuffer> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    secret,
+    { name: "PBKDF2" },
+    false,
+    ["deriveBits"]
+  );
+
+  return crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      salt: salt.slice(),
+      iterations: params.iterations,
+      hash: params.hash,
+    },
+    baseKey,
+    DERIVED_KEY_BYTES * 8
+  );
+}
+
+/**
+ * Derives key material with Argon2id. The WASM module is fetched lazily, so senders and
+ * receivers that only use PBKDF2 never download it.
+ * @param {Uint8Array} secret The encoded download code.
+ * @param {Uint8Array} salt The salt from the envelope.
+ * @param {Argon2idParams} params The memory, time and parallelism costs.
+ * @returns {Promise<ArrayBuffer>} The derived key material.
+ */
+async function deriveArgon2id(secret: Uint8Array, salt: Uint8Array, params: Argon2idParams): Promise<ArrayBuffer> {
+  const { argon2id } = await import("hash-wasm");
+  const hash = await argon2id({
+    password: secret,
+    salt,
+    memorySize: params.memory_kib,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    hashLength: DERIVED_KEY_BYTES,
+    outputType: "binary",
+  });
+  return hash.slice().buffer;
+}
+
+/**
+ * Stretches a download code into 256 bits of key material with the KDF named in `params`.
+ * @param {string} downloadCode The user-facing secret code.
+ * @param {Uint8Array} salt A random salt to add to the derivation.
+ * @param {KdfParams} params The KDF settings from the envelope.
+ * @returns {Promise<ArrayBuffer>} The derived key material.
+ */
+export async function deriveKeyMaterial(downloadCode: string, salt: Uint8Array, params: KdfParams): Promise<ArrayBuffer> {
+  const secret = new TextEncoder().encode(downloadCode);
+  switch (params.name) {
+    case "PBKDF2":
+      return derivePbkdf2(secret, salt, params);
+    case "Argon2id":
+      return deriveArgon2id(secret, salt, params);
+  }
+}
+
+// --- Calibration ---
+
+const clamp = (value: number, range: { min: number, max: number }) =>
+  Math.min(range.max, Math.max(range.min, value));
+
+/** Calibrated settings for this page load, so repeated uploads do not re-measure. */
+const calibrations = new Map<string, Promise<KdfParams>>();
+
+/**
+ * Measures the KDF on this device and scales its time cost so one derivation takes about `targetMs`.
+ * Faster devices get stronger settings; slower ones never drop below the defaults.
+ * Argon2id keeps its default memory cost and only scales the number of passes.
+ * @param {KdfName} name The KDF to calibrate.
+ * @param {number} targetMs The derivation time to aim for.
+ * @returns {Promise<KdfParams>} The calibrated settings.
+ */
+async function measureKdf(name: KdfName, targetMs: number): Promise<KdfParams> {
+  const probe = defaultKdfParams(name);
+  const secret = new TextEncoder().encode("calibration");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+
+  if (probe.name === "Argon2id") {
+    // Instantiate the WASM module first so its compile time is not counted as derivation time.
+    await deriveArgon2id(secret, salt, { ...probe, memory_kib: 8, iterations: 1 });
+  }
+
+  const start = performance.now();
+  await deriveKeyMaterial("calibration", salt, probe);
+  const elapsed = Math.max(performance.now() - start, 1);
+  const scale = targetMs / elapsed;
+
+  if (probe.name === "PBKDF2") {
+    const iterations = Math.round((probe.iterations * scale) / 1000) * 1000;
+    return { ...probe, iterations: clamp(iterations, PBKDF2_ITERATIONS_RANGE) };
+  }
+  const iterations = Math.floor(probe.iterations * scale);
+  return { ...probe, iterations: clamp(iterations, ARGON2_ITERATIONS_RANGE) };
+}
+
+/**
+ * Returns KDF settings calibrated for this device, measuring once per page load.
+ * @param {KdfName} name The KDF to calibrate.
+ * @param {number} [targetMs=KDF_TARGET_MS] The derivation time to aim for.
+ * @returns {Promise<KdfParams>} The calibrated settings.
+ */
+export function calibrateKdf(name: KdfName, targetMs = KDF_TARGET_MS): Promise<KdfParams> {
+  const key = `${name}:${targetMs}`;
+  let calibration = calibrations.get(key);
+  if (!calibration) {
+    calibration = measureKdf(name, targetMs);
+    calibrations.set(key, calibration);
+    // A failed measurement should be retried next time rather than cached.
+    calibration.catch(() => calibrations.delete(key));
+  }
+  return calibration;
+}
@@ -0,0 +1,395 @@
+/**
+ * SecureShare - Local Keystore
+ * Keeps this browser's identity in IndexedDB: an ECDH key pair that receives files and an ECDSA key pair
+ * that signs uploads. The private keys in use are non-extractable, so page scripts can use them but can
+ * never read their bytes. The only other copy is the backup, sealed under the user's passphrase when the
+ * keys are created or restored, which is useless to a script that does not know the passphrase.
+ * Each file request also gets its own key pair, kept in a second store until the requester forgets it.
+ */
+
+import { z } from "zod";
+import {
+  arrayBufferToHex,
+  exportRecipientPublicKey,
+  hexToArrayBuffer,
+  importRecipientPublicKey,
+  keyFingerprint,
+  openWithPassphrase,
+  type PassphraseSealed,
+  RECIPIENT_CURVE,
+  recipientKeyId,
+  sealWithPassphrase,
+  SIGNATURE_ALG,
+} from "@/lib/crypto";
+import { kdfParamsSchema } from "@/lib/envelope";
+
+const DB_NAME = "secureshare-keys";
+const DB_VERSION = 2;
+const IDENTITY_STORE = "identity";
+const REQUEST_STORE = "requests";
+const IDENTITY_KEY = "default";
+
+const RECIPIENT_ALG = { name: "ECDH", namedCurve: RECIPIENT_CURVE } as const;
+
+/** Identifies SecureShare key backup files. */
+const BACKUP_FORMAT = "secureshare-identity-backup";
+const BACKUP_VERSION = 1;
+
+/** The shortest passphrase accepted for a key backup. */
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 10;
+
+/** This browser's identity. */
+export interface Identity {
+  keyPair: CryptoKeyPair;
+  /** The hex-encoded public key to give to senders. */
+  publicKey: string;
+  /** The ID senders' envelopes file this key under. */
+  keyId: string;
+  /** The fingerprint senders compare to confirm they have the right key. */
+  fingerprint: string;
+  /** The ECDSA key pair that signs this browser's uploads. */
+  signingKeyPair: CryptoKeyPair;
+  /** The fingerprint recipients see on files signed by this browser. */
+  signingFingerprint: string;
+  createdAt: string;
+}
+
+/** The key pair of a file request, with what the requester needs to manage it. Stored as it is. */
+export interface RequestKey {
+  requestId: string;
+  label: string;
+  keyPair: CryptoKeyPair;
+  /** The hex-encoded public key carried in the request link. */
+  publicKey: string;
+  keyId: string;
+  fingerprint: string;
+  /** The token the file-requests function checks before listing or closing the request. */
+  manageToken: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** The record stored in IndexedDB. CryptoKeys are structured-cloneable, so they are stored as they are. */
+interface StoredIdentity {
+  keyPair: CryptoKeyPair;
+  signingKeyPair: CryptoKeyPair;
+  createdAt: string;
+  /** The backup file, sealed under the user's passphrase. */
+  backup: string;
+}
+
+/** A private key's PKCS #8 bytes and its public key, held only while generating, backing up or restoring. */
+interface KeyMaterial {
+  pkcs8: Uint8Array;
+  publicKey: CryptoKey;
+}
+
+/** A key backup file: the PKCS #8 private keys sealed under the user's passphrase. */
+interface IdentityBackup extends PassphraseSealed {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  created_at: string;
+  public_key: string;
+  signing_public_key: string;
+}
+
+const hexField = z.string().regex(/^(?:[0-9a-f]{2})+$/i);
+
+const backupSchema = z
+  .object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.literal(BACKUP_VERSION),
+    created_at: z.string().datetime(),
+    public_key: hexField,
+    signing_public_key: hexField,
+    kdf_params: kdfParamsSchema,
+    salt: hexField,
+    iv: hexField,
+    ciphertext: hexField,
+  })
+  // Without strictNullChecks zod infers every property as optional; the schema guarantees them.
+  .transform((backup) => backup as IdentityBackup);
+
+/** What a backup seals: both private keys, hex-encoded. */
+const backupPayloadSchema = z.object({ recipient_key: hexField, signing_key: hexField });
+
+/** Opens the keystore database, creating it on first use. */
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const name of [IDENTITY_STORE, REQUEST_STORE]) {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against one of the keystore's object stores.
+ * @param {string} storeName The object store.
+ * @param {IDBTransactionMode} mode The transaction mode.
+ * @param {(store: IDBObjectStore) => IDBRequest} run Issues the request.
+ */
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const readStored = () => withStore<StoredIdentity | undefined>(IDENTITY_STORE, "readonly", (store) => store.get(IDENTITY_KEY));
+
+const writeStored = (stored: StoredIdentity) => withStore(IDENTITY_STORE, "readwrite", (store) => store.put(stored, IDENTITY_KEY));
+
+/**
+ * Generates a key pair and exports its private key once, so it can be sealed for backups.
+ * @param {EcKeyGenParams} algorithm The key algorithm.
+ * @param {KeyUsage[]} usages The key pair's usages.
+ */
+async function generateKeyMaterial(algorithm: EcKeyGenParams, usages: KeyUsage[]): Promise<KeyMaterial> {
+  const generated = await crypto.subtle.generateKey(algorithm, true, usages);
+  return {
+    pkcs8: new Uint8Array(await crypto.subtle.exportKey("pkcs8", generated.privateKey)),
+    publicKey: generated.publicKey,
+  };
+}
+
+/**
+ * Imports a private key for use. The result is non-extractable.
+ * @param {Uint8Array} pkcs8 The private key.
+ * @param {EcKeyImportParams} algorithm The key algorithm.
+ * @param {KeyUsage[]} usages The private key's usages.
+ */
+const importPrivateKey = (pkcs8: Uint8Array, algorithm: EcKeyImportParams, usages: KeyUsage[]) =>
+  crypto.subtle.importKey("pkcs8", pkcs8, algorithm, false, usages);
+
+/**
+ * Seals both private keys under a passphrase as a backup file.
+ * @param {KeyMaterial} recipient The ECDH key.
+ * @param {KeyMaterial} signing The ECDSA key.
+ * @param {string} createdAt When the identity was first created.
+ * @param {string} passphrase The passphrase that will be needed to restore the backup.
+ * @returns {Promise<string>} The backup file's contents.
+ */
+async function sealBackup(recipient: KeyMaterial, signing: KeyMaterial, createdAt: string, passphrase: string): Promise<string> {
+  const payload = new TextEncoder().encode(JSON.stringify({
+    recipient_key: arrayBufferToHex(recipient.pkcs8),
+    signing_key: arrayBufferToHex(signing.pkcs8),
+  }));
+  try {
+    const backup: IdentityBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: createdAt,
+      public_key: await exportRecipientPublicKey(recipient.publicKey),
+      signing_public_key: arrayBufferToHex(new Uint8Array(await crypto.subtle.exportKey("raw", signing.publicKey))),
+      ...await sealWithPassphrase(payload, passphrase),
+    };
+    return JSON.stringify(backup, null, 2);
+  } finally {
+    payload.fill(0);
+  }
+}
+
+/**
+ * Checks that a backup passphrase is long enough.
+ * @param {string} passphrase The passphrase.
+ */
+function checkBackupPassphrase(passphrase: string) {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`The backup passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.`);
+  }
+}
+
+/**
+ * Fills in the derived fields of a stored identity.
+ * @param {StoredIdentity} stored The record from IndexedDB.
+ */
+async function toIdentity(stored: StoredIdentity): Promise<Identity> {
+  return {
+    keyPair: stored.keyPair,
+    publicKey: await exportRecipientPublicKey(stored.keyPair.publicKey),
+    keyId: await recipientKeyId(stored.keyPair.publicKey),
+    fingerprint: await keyFingerprint(stored.keyPair.publicKey),
+    signingKeyPair: stored.signingKeyPair,
+    signingFingerprint: await keyFingerprint(stored.signingKeyPair.publicKey),
+    createdAt: stored.createdAt,
+  };
+}
+
+/**
+ * Stores a recipient and a signing key as this browser's identity, replacing any existing one.
+ * The keys in use are imported non-extractable; the PKCS #8 bytes are kept only in a backup sealed under the passphrase.
+ * @param {KeyMaterial} recipient The ECDH key. Its private bytes are zeroed once stored.
+ * @param {KeyMaterial} signing The ECDSA key. Its private bytes are zeroed once stored.
+ * @param {string} createdAt When the identity was first created.
+ * @param {string} passphrase The backup passphrase.
+ */
+async function storeIdentity(recipient: KeyMaterial, signing: KeyMaterial, createdAt: string, passphrase: string): Promise<Identity> {
+  try {
+    const stored: StoredIdentity = {
+      keyPair: { publicKey: recipient.publicKey, privateKey: await importPrivateKey(recipient.pkcs8, RECIPIENT_ALG, ["deriveBits"]) },
+      signingKeyPair: { publicKey: signing.publicKey, privateKey: await importPrivateKey(signing.pkcs8, SIGNATURE_ALG, ["sign"]) },
+      createdAt,
+      backup: await sealBackup(recipient, signing, createdAt, passphrase),
+    };
+    await writeStored(stored);
+    return toIdentity(stored);
+  } finally {
+    recipient.pkcs8.fill(0);
+    signing.pkcs8.fill(0);
+  }
+}
+
+/**
+ * Loads this browser's identity.
+ * @returns {Promise<Identity | null>} The identity, or null if none has been created yet.
+ */
+export async function loadIdentity(): Promise<Identity | null> {
+  const stored = await readStored();
+  if (!stored) return null;
+  return toIdentity(stored);
+}
+
+/**
+ * Generates a new identity and stores it, replacing any existing one.
+ * Files shared with the old public key can no longer be opened in this browser.
+ * @param {string} passphrase The passphrase the identity's backup is sealed under.
+ * @returns {Promise<Identity>} The new identity.
+ */
+export async function createIdentity(passphrase: string): Promise<Identity> {
+  checkBackupPassphrase(passphrase);
+  return storeIdentity(
+    await generateKeyMaterial(RECIPIENT_ALG, ["deriveBits"]),
+    await generateKeyMaterial(SIGNATURE_ALG, ["sign", "verify"]),
+    new Date().toISOString(),
+    passphrase
+  );
+}
+
+/**
+ * Returns this browser's backup file. It was sealed under the passphrase when the identity was created or restored.
+ * @returns {Promise<Blob>} The backup file.
+ * @throws {Error} If there is no identity.
+ */
+export async function exportIdentityBackup(): Promise<Blob> {
+  const stored = await readStored();
+  if (!stored) {
+    throw new Error("There is no key in this browser to back up.");
+  }
+  return new Blob([stored.backup], { type: "application/json" });
+}
+
+/**
+ * Checks that a private key belongs to a public key by comparing the curve points.
+ * @param {KeyMaterial} material The private key and the public key it should belong to.
+ * @param {EcKeyImportParams} algorithm The key algorithm.
+ * @param {KeyUsage[]} usages The private key's usages.
+ */
+async function keyPairMatches({ pkcs8, publicKey }: KeyMaterial, algorithm: EcKeyImportParams, usages: KeyUsage[]): Promise<boolean> {
+  try {
+    const privateKey = await crypto.subtle.importKey("pkcs8", pkcs8, algorithm, true, usages);
+    const privateJwk = await crypto.subtle.exportKey("jwk", privateKey);
+    const publicJwk = await crypto.subtle.exportKey("jwk", publicKey);
+    return privateJwk.x === publicJwk.x && privateJwk.y === publicJwk.y;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recovers the key material from a backup's decrypted payload.
+ * @param {IdentityBackup} backup The parsed backup.
+ * @param {Uint8Array} payload The decrypted payload.
+ */
+async function backupKeyMaterial(backup: IdentityBackup, payload: Uint8Array): Promise<{ recipient: KeyMaterial, signing: KeyMaterial }> {
+  const recipientPublicKey = await importRecipientPublicKey(backup.public_key);
+  let keys: z.infer<typeof backupPayloadSchema>;
+  try {
+    keys = backupPayloadSchema.parse(JSON.parse(new TextDecoder().decode(payload)));
+  } catch {
+    throw new Error("The backup is damaged: its keys could not be read.");
+  } finally {
+    payload.fill(0);
+  }
+  const signingPublicKey = await crypto.subtle.importKey(
+    "raw", hexToArrayBuffer(backup.signing_public_key), SIGNATURE_ALG, true, ["verify"]
+  );
+  return {
+    recipient: { pkcs8: hexToArrayBuffer(keys.recipient_key), publicKey: recipientPublicKey },
+    signing: { pkcs8: hexToArrayBuffer(keys.signing_key), publicKey: signingPublicKey },
+  };
+}
+
+/**
+ * Restores an identity from a backup, replacing any existing one.
+ * @param {string} backupText The contents of the backup file.
+ * @param {string} passphrase The passphrase the backup was written with.
+ * @returns {Promise<Identity>} The restored identity.
+ * @throws {Error} If the file is not a backup, the passphrase is wrong, or the keys do not match.
+ */
+export async function importIdentityBackup(backupText: string, passphrase: string): Promise<Identity> {
+  let backup: IdentityBackup;
+  try {
+    backup = backupSchema.parse(JSON.parse(backupText));
+  } catch {
+    throw new Error("This file is not a SecureShare key backup.");
+  }
+
+  const { recipient, signing } = await backupKeyMaterial(backup, await openWithPassphrase(backup, passphrase));
+  const matches = await keyPairMatches(recipient, RECIPIENT_ALG, ["deriveBits"])
+    && await keyPairMatches(signing, SIGNATURE_ALG, ["sign"]);
+  if (!matches) {
+    recipient.pkcs8.fill(0);
+    signing.pkcs8.fill(0);
+    throw new Error("The backup is damaged: its private keys do not match its public keys.");
+  }
+  return storeIdentity(recipient, signing, backup.created_at, passphrase);
+}
+
+/**
+ * Stores the key pair of a new file request.
+ * @param {RequestKey} requestKey The request's key and details.
+ */
+export async function saveRequestKey(requestKey: RequestKey) {
+  await withStore(REQUEST_STORE, "readwrite", (store) => store.put(requestKey, requestKey.requestId));
+}
+
+/**
+ * Lists the file requests whose keys this browser holds, newest first.
+ * @returns {Promise<RequestKey[]>} The stored requests.
+ */
+export async function listRequestKeys(): Promise<RequestKey[]> {
+  const requestKeys = await withStore<RequestKey[]>(REQUEST_STORE, "readonly", (store) => store.getAll());
+  return requestKeys.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Deletes a file request's key pair. Files sent to the request can no longer be opened afterwards.
+ * @param {string} requestId The request's ID.
+ */
+export async function deleteRequestKey(requestId: string) {
+  await withStore(REQUEST_STORE, "readwrite", (store) => store.delete(requestId));
+}
+
+/**
+ * Finds a key pair in this browser that can open an envelope: the identity or a file request's key.
+ * @param {string[]} keyIds The key IDs of the envelope's recipients.
+ * @returns {Promise<CryptoKeyPair | null>} The matching key pair, or null if none is held here.
+ */
+export async function findRecipientKeyPair(keyIds: string[]): Promise<CryptoKeyPair | null> {
+  const identity = await loadIdentity();
+  if (identity && keyIds.includes(identity.keyId)) return identity.keyPair;
+  const requestKey = (await listRequestKeys()).find((candidate) => keyIds.includes(candidate.keyId));
+  return requestKey?.keyPair ?? null;
+}
@@ -0,0 +1,50 @@
+/**
+ * SecureShare - Share Management
+ * Client for the manage-share edge function, which lets a sender holding the management token
+ * revoke, delete or change a share after it has been uploaded.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/** The server-side state of a share, as reported to its sender. */
+export interface ShareStatus {
+  /** When the share was uploaded. Its maximum retention counts from here. */
+  created_at: string;
+  /** When a scheduled share opens, or null if it opened on upload. */
+  available_from: string | null;
+  expires_at: string;
+  /** Null for unlimited downloads. */
+  max_downloads: number | null;
+  download_count: number;
+  size_bucket: number | null;
+}
+
+/** The actions the manage-share function accepts. */
+export type ManageRequest =
+  | { action: "status" }
+  | { action: "revoke" }
+  | { action: "delete" }
+  | { action: "update"; max_downloads?: number | null; expires_at?: string };
+
+/**
+ * Builds the sender's private manage link. The token sits in the URL fragment, which browsers do not send to servers.
+ * @param {string} fileId The share's file ID.
+ * @param {string} token The management token.
+ */
+export const manageUrl = (fileId: string, token: string) => `${window.location.origin}/m/${fileId}#${token}`;
+
+/**
+ * Sends a management request for a share.
+ * @param {string} fileId The share's file ID.
+ * @param {string} token The management token from the manage link.
+ * @param {ManageRequest} request The action to perform.
+ * @returns {Promise<ShareStatus | null>} The share's new state, or null once it has been deleted.
+ */
+export async function manageShare(fileId: string, token: string, request: ManageRequest): Promise<ShareStatus | null> {
+  const { data, error } = await supabase.functions.invoke("manage-share", { body: { fileId, token, ...request } });
+  if (error) {
+    const errorResponse = await error.context?.json();
+    throw new Error(errorResponse?.error || "The share could not be updated.");
+  }
+  return request.action === "delete" ? null : (data as ShareStatus);
+}
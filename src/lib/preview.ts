@@ -0,0 +1,70 @@
+/**
+ * SecureShare - File Previews
+ * Decides which decrypted files can be shown in the browser, and how. Previews never hand the file
+ * to the page as active content: images and media go to elements that cannot run scripts, text is
+ * rendered as text, Markdown is turned into HTML inside a sandboxed frame with no scripts and no
+ * network access, and PDFs are opened by the browser's own viewer.
+ */
+
+/** How a file is previewed. */
+export type PreviewKind = "image" | "pdf" | "text" | "markdown" | "audio" | "video";
+
+/** The largest file that can be previewed. Previews are decrypted in memory. */
+export const MAX_PREVIEW_BYTES = 100 * 1024 * 1024; // 100 MiB
+
+/** How much of a text file is shown. */
+export const MAX_PREVIEW_TEXT_BYTES = 1024 * 1024; // 1 MiB
+
+/** Image formats browsers decode safely in an <img>; SVG included, since it runs no scripts there. */
+const IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "image/avif", "image/bmp", "image/svg+xml"]);
+
+/** Plain-text formats that are often sent without a text/ MIME type. */
+const TEXT_TYPES = new Set(["application/json", "application/xml", "application/x-yaml", "application/javascript"]);
+const TEXT_EXTENSIONS = new Set(["txt", "log", "csv", "json", "xml", "yaml", "yml", "ini", "conf", "toml"]);
+const MARKDOWN_EXTENSIONS = new Set(["md", "markdown"]);
+
+/** The Markdown frame may show inline styles and embedded images, and load nothing else. */
+const MARKDOWN_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:";
+
+const MARKDOWN_STYLE = `
+  :root { color-scheme: light dark; }
+  body { font: 15px/1.6 system-ui, sans-serif; margin: 1rem; overflow-wrap: break-word; }
+  pre { overflow-x: auto; padding: 0.75rem; border-radius: 0.375rem; background: rgba(127, 127, 127, 0.15); }
+  code { font-family: ui-monospace, monospace; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid rgba(127, 127, 127, 0.4); padding: 0.25rem 0.5rem; }
+`;
+
+/**
+ * Works out how a file can be previewed from its decrypted details.
+ * @param {string} name The file name.
+ * @param {string} type The MIME type recorded by the sender's browser.
+ * @param {number} size The file size.
+ * @returns {PreviewKind | null} The kind of preview, or null if the file cannot be previewed.
+ */
+export function previewKind(name: string, type: string, size: number): PreviewKind | null {
+  if (size > MAX_PREVIEW_BYTES) return null;
+  const extension = name.includes(".") ? name.split(".").pop().toLowerCase() : "";
+  if (type === "text/markdown" || MARKDOWN_EXTENSIONS.has(extension)) return "markdown";
+  if (IMAGE_TYPES.has(type)) return "image";
+  if (type === "application/pdf") return "pdf";
+  if (type.startsWith("audio/")) return "audio";
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("text/") || TEXT_TYPES.has(type) || TEXT_EXTENSIONS.has(extension)) return "text";
+  return null;
+}
+
+/**
+ * Renders Markdown into a standalone document for a sandboxed frame. Raw HTML in the source is
+ * kept, since the frame's sandbox and content security policy are what keep it inert.
+ * @param {string} markdown The Markdown source.
+ * @returns {Promise<string>} The HTML document.
+ */
+export async function markdownDocument(markdown: string): Promise<string> {
+  const { marked } = await import("marked");
+  const body = await marked.parse(markdown, { gfm: true });
+  return `<!doctype html><html><head><meta charset="utf-8">` +
+    `<meta http-equiv="Content-Security-Policy" content="${MARKDOWN_CSP}">` +
+    `<style>${MARKDOWN_STYLE}</style></head><body>${body}</body></html>`;
+}
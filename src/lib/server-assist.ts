@@ -0,0 +1,67 @@
+/**
+ * SecureShare - Server-Assisted Codes
+ * Client for the verify-code edge function. For server-assisted envelopes the KEK mixes in a secret
+ * share that the function only releases for the right code, so guesses cannot be checked offline
+ * and the server can limit how many are made.
+ */
+
+import { codeVerifier, getServerAssistedFileKey, type ServerEnrollment } from "@/lib/crypto";
+import { cryptoWorker } from "@/lib/crypto-worker";
+import type { Envelope } from "@/lib/envelope";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Thrown when the server rejects a download code. */
+export class CodeRejectedError extends Error {
+  /** How many more codes the file accepts before it locks; 0 once it is locked. */
+  readonly remainingAttempts: number | null;
+
+  constructor(message: string, remainingAttempts: number | null) {
+    super(message);
+    this.name = "CodeRejectedError";
+    this.remainingAttempts = remainingAttempts;
+  }
+}
+
+/**
+ * Hands the secret share and code verifier of a new upload to the server.
+ * @param {string} fileId The share's file ID.
+ * @param {string} manageToken The management token, which proves the caller is the sender.
+ * @param {ServerEnrollment} enrollment The values returned by encryptFile.
+ */
+export async function enrollServerShare(fileId: string, manageToken: string, enrollment: ServerEnrollment) {
+  const { error } = await supabase.functions.invoke("verify-code", {
+    body: { fileId, action: "enroll", token: manageToken, serverShare: enrollment.server_share, verifier: enrollment.verifier },
+  });
+  if (error) {
+    const errorResponse = await error.context?.json();
+    throw new Error(errorResponse?.error || "The file could not be registered for server-assisted verification.");
+  }
+}
+
+/**
+ * Recovers the file key of a server-assisted envelope. The code is stretched in the crypto worker,
+ * then only a verifier derived from it is sent to the server.
+ * @param {string} fileId The share's file ID.
+ * @param {Envelope} envelope The validated metadata envelope.
+ * @param {string} downloadCode The secret code provided by the user.
+ * @param {string} [password] The extra password, for password-protected envelopes.
+ * @returns {Promise<CryptoKey>} The decrypted file key.
+ * @throws {CodeRejectedError} If the server rejects the code or the file is locked.
+ */
+export async function getFileKeyWithServer(fileId: string, envelope: Envelope, downloadCode: string, password?: string): Promise<CryptoKey> {
+  const codeKey = await cryptoWorker.deriveCodeKey(envelope, downloadCode, password);
+  const verifier = await codeVerifier(codeKey);
+
+  const { data, error } = await supabase.functions.invoke<{ serverShare: string }>("verify-code", {
+    body: { fileId, action: "verify", verifier },
+  });
+  if (error || !data?.serverShare) {
+    const errorResponse = await error?.context?.json();
+    throw new CodeRejectedError(
+      errorResponse?.error || "The download code could not be verified.",
+      typeof errorResponse?.remainingAttempts === "number" ? errorResponse.remainingAttempts : null
+    );
+  }
+
+  return getServerAssistedFileKey(envelope, codeKey, data.serverShare);
+}
@@ -0,0 +1,56 @@
+/**
+ * SecureShare - Share Policy
+ * How long a share may be kept and how often it may be downloaded. The limits live in the
+ * database's share_policy table, which checks every share against them when it is created or
+ * changed; the client only reads them to offer choices the server will accept.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/** The server's limits on shares. Retention counts from upload. */
+export interface SharePolicy {
+  max_retention_seconds: number;
+  max_downloads: number;
+  allow_unlimited_downloads: boolean;
+}
+
+/** The limits the database starts with, assumed until the real ones have been read. */
+export const DEFAULT_SHARE_POLICY: SharePolicy = {
+  max_retention_seconds: 30 * 24 * 60 * 60,
+  max_downloads: 100,
+  allow_unlimited_downloads: true,
+};
+
+/** The shortest lifetime offered, so a share cannot expire while it is still uploading. */
+export const MIN_EXPIRY_SECONDS = 5 * 60;
+
+/** The units a lifetime can be given in. */
+export type ExpiryUnit = "minutes" | "hours" | "days";
+
+export const EXPIRY_UNIT_SECONDS: Record<ExpiryUnit, number> = {
+  minutes: 60,
+  hours: 60 * 60,
+  days: 24 * 60 * 60,
+};
+
+/** When a share expires: a lifetime counted from when it is published, or a fixed date (ISO 8601). */
+export type ShareExpiry = { seconds: number } | { at: string };
+
+/**
+ * Works out the moment a share expires.
+ * @param {ShareExpiry} expiry The chosen expiry.
+ * @param {number} [from] When a lifetime starts counting, in milliseconds. Defaults to now.
+ */
+export const expiryDate = (expiry: ShareExpiry, from = Date.now()) =>
+  "at" in expiry ? new Date(expiry.at) : new Date(from + expiry.seconds * 1000);
+
+/**
+ * Reads the server's limits on shares.
+ * @returns {Promise<SharePolicy>} The policy.
+ */
+export async function getSharePolicy(): Promise<SharePolicy> {
+  const { data, error } = await supabase.rpc("get_share_policy");
+  const policy = (data as SharePolicy[] | null)?.[0];
+  if (error || !policy) throw new Error("The share limits could not be loaded.");
+  return policy;
+}
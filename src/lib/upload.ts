@@ -0,0 +1,287 @@
+/**
+ * SecureShare - Uploading Files
+ * Sends ciphertext to Supabase Storage with the tus resumable upload protocol, in chunks the server
+ * acknowledges one by one. Until an upload finishes, the encrypted file and its share settings are
+ * kept in IndexedDB, so a reload or a lost connection resumes from the last acknowledged chunk
+ * instead of starting over. The download code and server share are sealed with a non-extractable key
+ * stored beside them, so the raw key never leaves the browser's crypto implementation; a script
+ * running on this origin can still use it to open them.
+ */
+
+import { Upload, type DetailedError, type PreviousUpload, type UrlStorage } from "tus-js-client";
+import { IV_BYTES, KEY_ALG, KEY_LEN, type ProgressOptions, type ServerEnrollment } from "@/lib/crypto";
+import type { CurrentEnvelope } from "@/lib/envelope";
+import type { ShareExpiry } from "@/lib/share-policy";
+import { SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from "@/integrations/supabase/client";
+
+const DB_NAME = "secureshare-uploads";
+const DB_VERSION = 1;
+const PENDING_STORE = "pending";
+const TUS_STORE = "tus";
+
+const BUCKET = "files";
+const TUS_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+const TUS_HEADERS = {
+  authorization: `Bearer ${SUPABASE_PUBLISHABLE_KEY}`,
+  apikey: SUPABASE_PUBLISHABLE_KEY,
+};
+
+/** Supabase Storage requires every chunk but the last to be exactly 6 MiB. */
+const UPLOAD_CHUNK_BYTES = 6 * 1024 * 1024;
+
+/** How long to wait before each retry of a failed chunk, in milliseconds. */
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+/**
+ * How long an unfinished upload is kept for resuming, in milliseconds. Supabase Storage drops an unfinished
+ * tus upload after a day, and purge-expired removes uploaded objects that were never published after that.
+ */
+const PENDING_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An encrypted file that has not finished uploading, with what is needed to publish the share once it has.
+ * It is deleted as soon as the upload finishes or is abandoned.
+ */
+export interface PendingUpload {
+  fileId: string;
+  /** The file name, or the number of files in a bundle, shown when offering to resume. */
+  label: string;
+  ciphertext: Blob;
+  envelope: CurrentEnvelope;
+  /** Sealed when stored. */
+  enrollment?: ServerEnrollment;
+  sha256: string;
+  /** Sealed when stored. */
+  code: string | null;
+  expiry: ShareExpiry;
+  /** Null for unlimited downloads. */
+  maxDownloads: number | null;
+  /** When the link opens (ISO 8601), or null to open it at once. */
+  availableFrom: string | null;
+  themeAccent: string;
+  requestId: string | null;
+  createdAt: string;
+}
+
+/** The secrets of a pending upload. */
+type PendingSecrets = Pick<PendingUpload, "code" | "enrollment">;
+
+/** A pending upload as kept in IndexedDB, with its secrets sealed. */
+type StoredPendingUpload = Omit<PendingUpload, "code" | "enrollment"> & {
+  /** A non-extractable AES-GCM key, used only for this upload's secrets. */
+  secretsKey: CryptoKey;
+  secretsIv: Uint8Array;
+  /** The download code and server share, as JSON encrypted under secretsKey. */
+  sealedSecrets: ArrayBuffer;
+};
+
+/** A tus upload URL as tus-js-client stores it, with the fingerprint it was stored under. */
+interface StoredTusUpload extends PreviousUpload {
+  fingerprint: string;
+}
+
+/** Opens the uploads database, creating it on first use. */
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const name of [PENDING_STORE, TUS_STORE]) {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against one of the uploads database's object stores.
+ * @param {string} storeName The object store.
+ * @param {IDBTransactionMode} mode The transaction mode.
+ * @param {(store: IDBObjectStore) => IDBRequest} run Issues the request.
+ */
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new DOMException("The transaction was aborted.", "AbortError"));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * The fingerprint tus-js-client files an upload's URL under. Every file ID is uploaded once, so it is enough.
+ * @param {string} fileId The file's ID.
+ */
+const tusFingerprint = (fileId: string) => `secureshare-upload::${fileId}`;
+
+/**
+ * Lists the stored tus upload URLs.
+ * @param {string} [fingerprint] Only list those of this upload.
+ */
+const findTusUploads = async (fingerprint?: string): Promise<PreviousUpload[]> => {
+  const stored = await withStore<StoredTusUpload[]>(TUS_STORE, "readonly", (store) => store.getAll());
+  return stored.filter((upload) => fingerprint === undefined || upload.fingerprint === fingerprint);
+};
+
+/** Keeps tus upload URLs in IndexedDB, next to the pending uploads they belong to, instead of in localStorage. */
+const tusUrlStorage: UrlStorage = {
+  findAllUploads: () => findTusUploads(),
+  findUploadsByFingerprint: (fingerprint) => findTusUploads(fingerprint),
+  removeUpload: async (urlStorageKey) => {
+    await withStore(TUS_STORE, "readwrite", (store) => store.delete(urlStorageKey));
+  },
+  addUpload: async (fingerprint, upload) => {
+    const urlStorageKey = `${fingerprint}::${crypto.randomUUID()}`;
+    const stored: StoredTusUpload = { ...upload, urlStorageKey, fingerprint };
+    await withStore(TUS_STORE, "readwrite", (store) => store.put(stored, urlStorageKey));
+    return urlStorageKey;
+  },
+};
+
+/**
+ * Keeps an encrypted file so its upload can be resumed after a reload.
+ * @param {PendingUpload} upload The upload.
+ */
+export async function savePendingUpload(upload: PendingUpload): Promise<void> {
+  const { code, enrollment, ...rest } = upload;
+  const secretsKey = await crypto.subtle.generateKey({ name: KEY_ALG, length: KEY_LEN }, false, ["encrypt", "decrypt"]);
+  const secretsIv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const secrets: PendingSecrets = { code, enrollment };
+  const sealedSecrets = await crypto.subtle.encrypt(
+    { name: KEY_ALG, iv: secretsIv },
+    secretsKey,
+    new TextEncoder().encode(JSON.stringify(secrets)),
+  );
+  const stored: StoredPendingUpload = { ...rest, secretsKey, secretsIv, sealedSecrets };
+  await withStore(PENDING_STORE, "readwrite", (store) => store.put(stored, upload.fileId));
+}
+
+/**
+ * Finds the most recent upload that did not finish. Uploads older than a day are discarded.
+ * @returns {Promise<PendingUpload | null>} The upload, or null if there is none.
+ * @throws {Error} If the secrets of the most recent upload cannot be opened.
+ */
+export async function loadPendingUpload(): Promise<PendingUpload | null> {
+  const stored = await withStore<StoredPendingUpload[]>(PENDING_STORE, "readonly", (store) => store.getAll());
+  const cutoff = Date.now() - PENDING_UPLOAD_TTL_MS;
+
+  const resumable: StoredPendingUpload[] = [];
+  for (const upload of stored) {
+    if (Date.parse(upload.createdAt) < cutoff) {
+      await discardPendingUpload(upload.fileId);
+      continue;
+    }
+    resumable.push(upload);
+  }
+  const latest = resumable.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (!latest) return null;
+
+  const { secretsKey, secretsIv, sealedSecrets, ...upload } = latest;
+  const opened = await crypto.subtle.decrypt({ name: KEY_ALG, iv: secretsIv }, secretsKey, sealedSecrets);
+  const secrets: PendingSecrets = JSON.parse(new TextDecoder().decode(opened));
+  return { ...upload, code: secrets.code, enrollment: secrets.enrollment };
+}
+
+/**
+ * Forgets an upload, finished or abandoned, along with its tus upload URL.
+ * @param {string} fileId The file's ID.
+ */
+export async function discardPendingUpload(fileId: string): Promise<void> {
+  for (const upload of await findTusUploads(tusFingerprint(fileId))) {
+    await tusUrlStorage.removeUpload(upload.urlStorageKey);
+  }
+  await withStore(PENDING_STORE, "readwrite", (store) => store.delete(fileId));
+}
+
+/**
+ * Asks the tus server how much of an upload it holds.
+ * @param {string} url The tus upload URL.
+ * @param {number} size The size of the whole upload, in bytes.
+ * @returns {Promise<boolean>} Whether the server holds all of it.
+ */
+async function tusUploadComplete(url: string, size: number): Promise<boolean> {
+  const response = await fetch(url, { method: "HEAD", headers: { ...TUS_HEADERS, "Tus-Resumable": "1.0.0" } });
+  return response.ok && Number(response.headers.get("Upload-Offset")) === size;
+}
+
+/**
+ * Uploads an encrypted file to storage, continuing an earlier attempt at the same file where the server left it.
+ * Failed chunks are retried with a growing delay before the upload gives up.
+ * @param {PendingUpload} upload The upload.
+ * @param {ProgressOptions} [options] Progress reporting, in bytes sent, and cancellation.
+ * Cancelling terminates the upload on the server.
+ */
+export function uploadCiphertext(upload: PendingUpload, { onProgress, signal }: ProgressOptions = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const tusUpload = new Upload(upload.ciphertext, {
+      endpoint: TUS_ENDPOINT,
+      headers: { ...TUS_HEADERS, "x-upsert": "false" },
+      metadata: {
+        bucketName: BUCKET,
+        objectName: upload.fileId,
+        contentType: "application/octet-stream",
+      },
+      chunkSize: UPLOAD_CHUNK_BYTES,
+      retryDelays: RETRY_DELAYS,
+      uploadDataDuringCreation: true,
+      // The URL is kept until the share is published, so a conflict on a later attempt can be checked against it.
+      removeFingerprintOnSuccess: false,
+      fingerprint: async () => tusFingerprint(upload.fileId),
+      urlStorage: tusUrlStorage,
+      onProgress: (bytesSent, bytesTotal) => onProgress?.(bytesSent, bytesTotal),
+      onSuccess: () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      },
+      onError: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        if ((error as DetailedError).originalResponse?.getStatus() !== 409) {
+          reject(new Error(`Storage error: ${error.message}`));
+          return;
+        }
+        // The object already exists when an earlier attempt finished but the page closed before it was recorded,
+        // but also when one was cut short. Only the earlier upload's offset tells them apart.
+        findTusUploads(tusFingerprint(upload.fileId))
+          .then(async (previous) => {
+            const urls = [tusUpload.url, ...previous.map((stored) => stored.uploadUrl)].filter(Boolean);
+            for (const url of urls) {
+              if (await tusUploadComplete(url, upload.ciphertext.size)) {
+                resolve();
+                return;
+              }
+            }
+            reject(new Error(`Storage error: ${error.message}`));
+          })
+          .catch(reject);
+      },
+    });
+
+    const onAbort = () => {
+      tusUpload.abort(true).catch(console.error);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    tusUpload.findPreviousUploads()
+      .then((previous) => {
+        if (previous.length > 0) tusUpload.resumeFromPreviousUpload(previous[0]);
+        if (!signal?.aborted) tusUpload.start();
+      })
+      .catch((error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      });
+  });
+}
@@ -1,16 +1,47 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useLocation } from "react-router-dom";
-import { DownloadCloud, KeyRound, File as FileIcon, AlertTriangle, Loader2, CheckCircle, MessageSquare, ShieldCheck } from "lucide-react";
+import { DownloadCloud, KeyRound, Lock, UserCheck, File as FileIcon, FileLock2, AlertTriangle, Loader2, CheckCircle, MessageSquare, ShieldCheck, Eye, Type } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { getFileKey, decryptInstructions, decryptFile } from "@/lib/crypto";
+import { Progress } from "@/components/ui/progress";
+import {
+  decryptInstructions,
+  decryptMetadata,
+  getRecipientFileKey,
+  STREAM_ALG,
+  verifyEnvelopeSignature,
+  type FileMetadata,
+} from "@/lib/crypto";
+import { cryptoWorker } from "@/lib/crypto-worker";
+import { parseEnvelope, EnvelopeError, type Envelope } from "@/lib/envelope";
+import { CodeRejectedError, getFileKeyWithServer } from "@/lib/server-assist";
+import { findRecipientKeyPair } from "@/lib/keystore";
+import { previewKind } from "@/lib/preview";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  chooseSaveFile,
+  confirmDownload,
+  openSaveStream,
+  releaseDownload,
+  reserveDownload,
+  saveBlob,
+  type DownloadLease,
+} from "@/lib/download";
+import { AvailabilityCountdown } from "@/components/AvailabilityCountdown";
+import { BundleContents } from "@/components/BundleContents";
+import { FileHash } from "@/components/FileHash";
+import { FilePreview } from "@/components/FilePreview";
+import { SecretSnippet } from "@/components/SecretSnippet";
+import { SignatureBadge, type SignatureState } from "@/components/SignatureBadge";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { useTheme } from "@/components/ThemeProvider";
 
-type Status = "idle" | "loading" | "verifying" | "ready" | "decrypting" | "success" | "error";
+type Status = "idle" | "loading" | "scheduled" | "verifying" | "ready" | "decrypting" | "success" | "error";
+
+/** How often the progress bar and throughput are redrawn while downloading, in milliseconds. */
+const PROGRESS_INTERVAL_MS = 250;
 
 function fetchMetadata(fileId: string) {
   // Use .limit(1) instead of .single() to prevent an error when no file is found.
@@ -22,18 +53,43 @@ function fetchMetadata(fileId: string) {
     .limit(1);
 }
 
+/**
+ * Finds out when a share that is hidden from fetchMetadata opens. Shares are hidden until then.
+ * @param {string} fileId The share's file ID.
+ * @returns {Promise<Date | null>} When it opens, or null if it is not waiting to open.
+ */
+async function fetchAvailability(fileId: string): Promise<Date | null> {
+  const { data, error } = await supabase.rpc("file_availability", { file_id_param: fileId });
+  const availableFrom = (data as { available_from: string }[] | null)?.[0]?.available_from;
+  if (error || !availableFrom) return null;
+  return new Date(availableFrom);
+}
+
 export default function DownloadPage() {
   const { fileId } = useParams<{ fileId: string }>();
   const location = useLocation();
   const { setAccent } = useTheme();
 
   const [status, setStatus] = useState<Status>("loading");
-  const [metadata, setMetadata] = useState<any | null>(null);
+  const [envelope, setEnvelope] = useState<Envelope | null>(null);
+  const [metadata, setMetadata] = useState<FileMetadata | null>(null);
   const [downloadCode, setDownloadCode] = useState("");
+  const [password, setPassword] = useState("");
   const [errorMessage, setErrorMessage] = useState("");
+  const [codeError, setCodeError] = useState("");
   const [isCodeVerified, setIsCodeVerified] = useState(false);
   const [instructions, setInstructions] = useState<string | null>(null);
   const [fileKey, setFileKey] = useState<CryptoKey | null>(null);
+  const [recipientKeyPair, setRecipientKeyPair] = useState<CryptoKeyPair | null>(null);
+  const [signer, setSigner] = useState<{ fingerprint: string, state: SignatureState } | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [transfer, setTransfer] = useState<{ received: number, total: number, bytesPerSecond: number } | null>(null);
+  const [bundle, setBundle] = useState<Blob | null>(null);
+  const [preview, setPreview] = useState<Blob | null>(null);
+  const [fileHash, setFileHash] = useState("");
+  const [availableFrom, setAvailableFrom] = useState<Date | null>(null);
+  const [metadataAttempt, setMetadataAttempt] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const initialCode = useMemo(() => location.hash.slice(1), [location.hash]);
 
@@ -56,30 +112,61 @@ export default function DownloadPage() {
       }
 
       if (!data || data.length === 0) {
+        // A scheduled share is hidden until it opens; count down to it instead of giving up.
+        const opensAt = await fetchAvailability(fileId);
+        if (opensAt) {
+          setAvailableFrom(opensAt);
+          setStatus("scheduled");
+          return;
+        }
         setStatus("error");
         setErrorMessage("This link has expired or reached its download limit.");
       } else {
         const fileData = data[0];
-        setMetadata(fileData);
         if (fileData.theme_accent) {
           setAccent(fileData.theme_accent as any);
         }
-        setStatus("idle");
+        try {
+          const parsed = parseEnvelope(fileData);
+          setEnvelope(parsed);
+          // Offer key-based unlocking only if this browser holds one of the recipient keys:
+          // its identity, or the key of a file request the file was sent to.
+          if (parsed.recipients.length > 0) {
+            const keyIds = parsed.recipients.map(recipient => recipient.key_id);
+            setRecipientKeyPair(await findRecipientKeyPair(keyIds).catch(() => null));
+          }
+          if (parsed.signature) {
+            const { valid, fingerprint } = await verifyEnvelopeSignature(parsed);
+            setSigner({ fingerprint, state: valid ? "unverified" : "invalid" });
+          }
+          setStatus("idle");
+        } catch (err) {
+          console.error(err);
+          setStatus("error");
+          setErrorMessage(err instanceof EnvelopeError
+            ? `This link is damaged or was created by an incompatible version of SecureShare. ${err.message}`
+            : "An unexpected error occurred. Please try again later.");
+        }
       }
     };
     getMetadata();
-  }, [fileId, initialCode, setAccent]);
+  }, [fileId, initialCode, setAccent, metadataAttempt]);
+
+  const retryMetadata = useCallback(() => setMetadataAttempt(attempt => attempt + 1), []);
 
   useEffect(() => {
     switch (status) {
       case "loading":
         document.title = "SecureShare - Loading File...";
         break;
+      case "scheduled":
+        document.title = "SecureShare - Not Available Yet";
+        break;
       case "idle":
       case "ready":
       case "verifying":
       case "decrypting":
-        document.title = metadata ? `Download: ${metadata.filename}` : "SecureShare - Download File";
+        document.title = metadata ? `Download: ${metadata.name}` : "SecureShare - Download File";
         break;
       case "success":
         document.title = "SecureShare - Download Complete!";
@@ -90,53 +177,148 @@ export default function DownloadPage() {
     }
   }, [status, metadata]);
 
-  const handleVerifyCode = async () => {
-    if (!metadata || !downloadCode) return;
+  /**
+   * Recovers the file key one way or another, then reveals the file details.
+   * @param {() => Promise<CryptoKey>} getKey Unwraps the file key with the code or the local recipient key.
+   */
+  const unlock = async (getKey: () => Promise<CryptoKey>) => {
+    if (!envelope) return;
     setStatus("verifying");
     setErrorMessage("");
+    setCodeError("");
     try {
-      const key = await getFileKey(metadata, downloadCode);
+      const key = await getKey();
       setFileKey(key);
-      const decryptedInstructions = await decryptInstructions(metadata, key);
+      setMetadata(await decryptMetadata(envelope, key));
+      const decryptedInstructions = await decryptInstructions(envelope, key);
       setInstructions(decryptedInstructions);
       setIsCodeVerified(true);
       setStatus("ready");
     } catch (err) {
+      // The server lets the recipient retry until the file locks, so keep the code field open.
+      if (err instanceof CodeRejectedError && err.remainingAttempts !== 0) {
+        setCodeError(err.remainingAttempts === null
+          ? err.message
+          : `${err.message} ${err.remainingAttempts} attempt${err.remainingAttempts === 1 ? "" : "s"} remaining.`);
+        setStatus("idle");
+        return;
+      }
       const message = err instanceof Error ? err.message : "Verification failed.";
       setErrorMessage(message);
       setStatus("error");
     }
   };
 
-  const handleDownload = async () => {
-    if (!fileId || !metadata || !fileKey) return;
+  const handleVerifyCode = () => {
+    if (!envelope || !downloadCode || (envelope.password_protected && !password)) return;
+    return unlock(() => envelope.server_assisted && fileId
+      ? getFileKeyWithServer(fileId, envelope, downloadCode, password)
+      : cryptoWorker.getFileKey(envelope, downloadCode, password));
+  };
+
+  const handleUnlockWithKey = () => {
+    if (!envelope || !recipientKeyPair) return;
+    return unlock(() => getRecipientFileKey(envelope, recipientKeyPair));
+  };
+
+  /**
+   * Downloads and decrypts the file, then saves or previews it.
+   * @param {"save" | "preview"} mode Whether to save the file or show it in the page.
+   */
+  const handleDownload = async (mode: "save" | "preview") => {
+    if (!fileId || !envelope || !metadata || !fileKey) return;
+    // Saved single files go to disk as they decrypt. Previews and bundles stay in memory,
+    // so the file can be shown or the recipient can pick files or save them all as a zip.
+    const streamToDisk = mode === "save" && envelope.alg === STREAM_ALG && !metadata.manifest;
+    let saveHandle: FileSystemFileHandle | null = null;
+    if (streamToDisk) {
+      try {
+        // The save dialog only opens in response to the click, so it has to come before anything slow.
+        saveHandle = await chooseSaveFile(metadata.name);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        console.warn("Save dialog unavailable:", err);
+      }
+    }
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    abortControllerRef.current = abortController;
     setStatus("decrypting");
+    setProgress(0);
+    setTransfer(null);
     setErrorMessage("");
+    let lease: DownloadLease | null = null;
     try {
-      const { error: functionError } = await supabase.functions.invoke('increment-download-count', { body: { fileId } });
-      if (functionError) {
-        const errorResponse = await functionError.context?.json();
-        throw new Error(errorResponse?.error || 'This link has expired or reached its download limit.');
+      // Reserve a download first: it is only consumed once decryption succeeds, so a failed attempt does not burn the link.
+      lease = await reserveDownload(fileId);
+      const response = await fetch(lease.signedUrl, { signal });
+      if (!response.ok || !response.body) throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+
+      const totalBytes = Number(response.headers.get("Content-Length")) || envelope.size_bucket;
+      const startedAt = performance.now();
+      let reportedAt = 0;
+      const onProgress = (received: number, total: number) => {
+        const now = performance.now();
+        if (received < total && now - reportedAt < PROGRESS_INTERVAL_MS) return;
+        reportedAt = now;
+        setProgress(Math.min(100, Math.round((received / Math.max(total, 1)) * 100)));
+        setTransfer({ received, total, bytesPerSecond: received / Math.max((now - startedAt) / 1000, 0.001) });
+      };
+      // Checking and decrypting happen in the crypto worker; the page only receives the plaintext.
+      // A signature or hash mismatch fails the sink before the file is completed, so nothing is saved.
+      const sink = streamToDisk ? await openSaveStream(metadata.name, metadata.size, saveHandle) : null;
+      let digest: string;
+      let decryptedBlob: Blob | null = null;
+      if (sink) {
+        digest = await cryptoWorker.decryptFileTo(response.body, sink, totalBytes, envelope, fileKey, metadata, { onProgress, signal });
+      } else {
+        const memory = new TransformStream<Uint8Array, Uint8Array>();
+        const [computed, blob] = await Promise.all([
+          cryptoWorker.decryptFileTo(response.body, memory.writable, totalBytes, envelope, fileKey, metadata, { onProgress, signal }),
+          new Response(memory.readable).blob(),
+        ]);
+        digest = computed;
+        decryptedBlob = new Blob([blob], { type: metadata.type });
+      }
+      if (envelope.signature) {
+        setSigner(current => current && current.state === "unverified" ? { ...current, state: "verified" } : current);
+      }
+      setFileHash(digest);
+      await confirmDownload(fileId, lease);
+      lease = null;
+      if (metadata.manifest) {
+        setBundle(decryptedBlob);
+      } else if (mode === "preview") {
+        setPreview(decryptedBlob);
+      } else if (decryptedBlob) {
+        saveBlob(decryptedBlob, metadata.name);
       }
-      const { data: blob, error: downloadError } = await supabase.storage.from("files").download(fileId);
-      if (downloadError) throw new Error(`Failed to download file: ${downloadError.message}`);
-      const decryptedBlob = await decryptFile(await blob.arrayBuffer(), metadata, fileKey);
-      const url = URL.createObjectURL(decryptedBlob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = metadata.filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
       setStatus("success");
     } catch (err) {
+      if (lease) releaseDownload(fileId, lease);
+      if (err instanceof Error && err.name === "SignatureMismatchError") {
+        setSigner(current => current && { ...current, state: "invalid" });
+      }
+      if (signal.aborted) {
+        setStatus("ready");
+        return;
+      }
       const message = err instanceof Error ? err.message : "An unknown error occurred.";
       setErrorMessage(message);
       setStatus("error");
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  const cancelDownload = () => abortControllerRef.current?.abort();
+
+  // Snippets are shown by SecretSnippet instead.
+  const previewAs = metadata && !metadata.manifest && !metadata.snippet ? previewKind(metadata.name, metadata.type, metadata.size) : null;
+  // A view-only file that cannot be previewed after all is offered for saving as usual.
+  const viewOnly = Boolean(metadata?.view_only) && previewAs !== null;
+
   return (
     <div className="min-h-screen bg-gradient-bg flex items-center justify-center p-4">
       <Card className="w-full max-w-lg bg-card/80 backdrop-blur-md border-primary/20 shadow-card">
@@ -148,6 +330,10 @@ export default function DownloadPage() {
             </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {signer && status !== "loading" && (
+            <SignatureBadge fingerprint={signer.fingerprint} state={signer.state} />
+          )}
+
           {status === "loading" && (
             <div className="flex flex-col items-center justify-center p-8 text-muted-foreground">
               <Loader2 className="h-10 w-10 animate-spin text-primary" />
@@ -155,48 +341,163 @@ export default function DownloadPage() {
             </div>
           )}
 
-          {(status === "idle" || status === "verifying" || status === "ready" || status === "decrypting") && metadata && !isCodeVerified && (
+          {status === "scheduled" && availableFrom && (
+            <AvailabilityCountdown availableFrom={availableFrom} onAvailable={retryMetadata} />
+          )}
+
+          {(status === "idle" || status === "verifying" || status === "ready" || status === "decrypting") && envelope && !isCodeVerified && (
             <>
               <div className="flex items-center justify-between rounded-md border border-border bg-background/50 p-4">
                 <div className="flex items-center gap-4">
-                  <FileIcon className="h-8 w-8 text-primary" />
+                  <FileLock2 className="h-8 w-8 text-primary" />
                   <div>
-                    <p className="font-semibold">{metadata.filename}</p>
-                    <p className="text-sm text-muted-foreground">{(metadata.size / 1024 / 1024).toFixed(2)} MB</p>
+                    <p className="font-semibold">Encrypted file</p>
+                    <p className="text-sm text-muted-foreground">Up to {(envelope.size_bucket / 1024 / 1024).toFixed(2)} MB · name and type are revealed after verification</p>
                   </div>
                 </div>
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="download-code" className="flex items-center text-muted-foreground">
-                  <KeyRound className="mr-2 h-4 w-4" /> Download Code
-                </Label>
-                <Input id="download-code" value={downloadCode} onChange={(e) => setDownloadCode(e.target.value)} placeholder="Enter the download code..." className="font-mono" />
-              </div>
-              <Button onClick={handleVerifyCode} disabled={!downloadCode || status === "verifying"} className="w-full">
-                {status === "verifying" ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Verifying...</> : <><ShieldCheck className="mr-2 h-4 w-4" /> Verify Code</>}
-              </Button>
+              {recipientKeyPair && (
+                <Button onClick={handleUnlockWithKey} disabled={status === "verifying"} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
+                  <UserCheck className="mr-2 h-4 w-4" /> Unlock with My Key
+                </Button>
+              )}
+              {!recipientKeyPair && !envelope.wrapped_file_key && (
+                <p className="text-center text-sm text-muted-foreground">
+                  This file was shared with specific recipients' keys. Open this link in a browser that holds one of them. <a href="/keys" className="underline">Manage your key</a>
+                </p>
+              )}
+              {envelope.wrapped_file_key && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="download-code" className="flex items-center text-muted-foreground">
+                      <KeyRound className="mr-2 h-4 w-4" /> Download Code
+                    </Label>
+                    <Input id="download-code" value={downloadCode} onChange={(e) => setDownloadCode(e.target.value)} placeholder="Enter the download code..." className="font-mono" />
+                    {envelope.server_assisted && (
+                      <p className="text-xs text-muted-foreground">Codes are checked by the server, and the file locks after a few incorrect attempts.</p>
+                    )}
+                    {envelope.password_protected && (
+                      <div className="space-y-2 pt-2">
+                        <Label htmlFor="password" className="flex items-center text-muted-foreground">
+                          <Lock className="mr-2 h-4 w-4" /> Password
+                        </Label>
+                        <Input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="The sender gave you this separately..." />
+                      </div>
+                    )}
+                    {codeError && (
+                      <p className="flex items-center text-sm font-medium text-destructive"><AlertTriangle className="mr-2 h-4 w-4" /> {codeError}</p>
+                    )}
+                  </div>
+                  <Button onClick={handleVerifyCode} disabled={!downloadCode || (envelope.password_protected && !password) || status === "verifying"} className="w-full">
+                    {status === "verifying" ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Verifying...</> : <><ShieldCheck className="mr-2 h-4 w-4" /> Verify Code</>}
+                  </Button>
+                </>
+              )}
             </>
           )}
 
           {isCodeVerified && metadata && (
             <>
+              <div className="flex items-center justify-between rounded-md border border-border bg-background/50 p-4">
+                {metadata.snippet ? (
+                  <div className="flex items-center gap-4">
+                    <Type className="h-8 w-8 text-primary" />
+                    <div>
+                      <p className="font-semibold">Secret text</p>
+                      <p className="text-sm text-muted-foreground">{metadata.size} bytes · revealed only on this page</p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-4">
+                    <FileIcon className="h-8 w-8 text-primary" />
+                    <div>
+                      <p className="font-semibold break-all">{metadata.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {metadata.manifest
+                          ? `${metadata.manifest.length} files`
+                          : metadata.type || "Unknown type"} · {(metadata.size / 1024 / 1024).toFixed(2)} MB
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+              {metadata.manifest && (
+                <BundleContents manifest={metadata.manifest} name={metadata.name} bundle={bundle} />
+              )}
               {instructions && (
                 <div className="space-y-2 rounded-lg border border-primary/20 bg-primary/10 p-4">
                   <Label className="flex items-center"><MessageSquare className="mr-2 h-4 w-4" /> Note from Sender</Label>
                   <p className="text-sm text-foreground/90">{instructions}</p>
                 </div>
               )}
-              <Button onClick={handleDownload} disabled={status === "decrypting"} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
-                {status === "decrypting" ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Decrypting...</> : <><DownloadCloud className="mr-2 h-4 w-4" /> Decrypt & Download</>}
-              </Button>
+              {status === "decrypting" && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-3">
+                    <Progress value={progress} className="w-full" />
+                    <Button variant="ghost" size="sm" onClick={cancelDownload}>Cancel</Button>
+                  </div>
+                  {transfer && (
+                    <p className="text-xs text-muted-foreground">
+                      {(transfer.received / 1024 / 1024).toFixed(1)} of {(transfer.total / 1024 / 1024).toFixed(1)} MB · {(transfer.bytesPerSecond / 1024 / 1024).toFixed(1)} MB/s
+                    </p>
+                  )}
+                </div>
+              )}
+              {preview && metadata.snippet && <SecretSnippet blob={preview} />}
+              {preview && previewAs && (
+                <FilePreview blob={preview} kind={previewAs} type={metadata.type} name={metadata.name} viewOnly={viewOnly} />
+              )}
+              {preview && !viewOnly && !metadata.snippet && (
+                <Button onClick={() => saveBlob(preview, metadata.name)} variant="outline" className="w-full">
+                  <DownloadCloud className="mr-2 h-4 w-4" /> Save a Copy
+                </Button>
+              )}
+              {viewOnly && !preview && (
+                <p className="flex items-center text-sm text-muted-foreground"><Eye className="mr-2 h-4 w-4" /> The sender shared this file for viewing only.</p>
+              )}
+              {!bundle && !preview && (
+                status === "decrypting" ? (
+                  <Button disabled className="w-full bg-gradient-primary text-primary-foreground">
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Decrypting...
+                  </Button>
+                ) : (
+                  <div className="flex gap-2">
+                    {metadata.snippet && (
+                      <Button onClick={() => handleDownload("preview")} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
+                        <Eye className="mr-2 h-4 w-4" /> Decrypt Secret
+                      </Button>
+                    )}
+                    {previewAs && (
+                      <Button onClick={() => handleDownload("preview")} variant={viewOnly ? "default" : "outline"} className={viewOnly ? "w-full bg-gradient-primary text-primary-foreground hover:shadow-glow" : "flex-1"}>
+                        <Eye className="mr-2 h-4 w-4" /> {viewOnly ? "Decrypt & View" : "Preview"}
+                      </Button>
+                    )}
+                    {!viewOnly && !metadata.snippet && (
+                      <Button onClick={() => handleDownload("save")} className="flex-1 bg-gradient-primary text-primary-foreground hover:shadow-glow">
+                        <DownloadCloud className="mr-2 h-4 w-4" /> {metadata.manifest ? "Decrypt Files" : "Decrypt & Download"}
+                      </Button>
+                    )}
+                  </div>
+                )
+              )}
             </>
           )}
 
           {status === "success" && (
              <div className="space-y-6 text-center p-8">
               <CheckCircle className="mx-auto h-16 w-16 text-success" />
-              <h3 className="text-2xl font-bold">Download Started!</h3>
-              <p className="text-muted-foreground">Your file has been decrypted and should be downloading now. This link may now be expired.</p>
+              <h3 className="text-2xl font-bold">{bundle ? "Files Decrypted!" : metadata?.snippet ? "Secret Decrypted!" : preview ? "File Decrypted!" : "Download Started!"}</h3>
+              <p className="text-muted-foreground">
+                {bundle
+                  ? "Save the files individually or all at once from the list above. This link may now be expired."
+                  : metadata?.snippet
+                    ? "Reveal or copy it above. This link may now be expired, so copy what you need before leaving this page."
+                    : preview
+                    ? "Your file is shown above. This link may now be expired, so keep this page open while you need it."
+                    : "Your file has been decrypted and should be downloading now. This link may now be expired."}
+              </p>
+              {/* The hash of a short secret would give it away to a guess, so snippets go without. */}
+              {fileHash && !metadata?.snippet && <FileHash hash={fileHash} comparable />}
               <Button onClick={() => window.location.href = '/'} className="w-full">Share Another File</Button>
             </div>
           )}
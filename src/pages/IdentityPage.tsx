@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { AlertTriangle, Copy, Download, KeyRound, Loader2, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  createIdentity,
+  exportIdentityBackup,
+  importIdentityBackup,
+  loadIdentity,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+  type Identity,
+} from "@/lib/keystore";
+import { saveBlob } from "@/lib/download";
+import { useToast } from "@/hooks/use-toast";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+type Status = "loading" | "ready" | "creating" | "error";
+
+const BACKUP_FILENAME = "secureshare-key-backup.json";
+
+export default function IdentityPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<Status>("loading");
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [backupConfirm, setBackupConfirm] = useState("");
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [backupBusy, setBackupBusy] = useState(false);
+
+  useEffect(() => {
+    document.title = "SecureShare - My Recipient Key";
+    loadIdentity()
+      .then((loaded) => {
+        setIdentity(loaded);
+        setStatus("ready");
+      })
+      .catch((err) => {
+        console.error(err);
+        setErrorMessage("This browser's key storage is unavailable. Private browsing modes often disable it.");
+        setStatus("error");
+      });
+  }, []);
+
+  const passphraseReady = backupPassphrase.length >= MIN_BACKUP_PASSPHRASE_LENGTH && backupPassphrase === backupConfirm;
+
+  const clearPassphrase = () => {
+    setBackupPassphrase("");
+    setBackupConfirm("");
+  };
+
+  const handleCreate = async () => {
+    if (!passphraseReady) return;
+    setStatus("creating");
+    try {
+      setIdentity(await createIdentity(backupPassphrase));
+      clearPassphrase();
+      setStatus("ready");
+    } catch (err) {
+      console.error(err);
+      setErrorMessage(err instanceof Error ? err.message : "The key could not be created.");
+      setStatus("error");
+    }
+  };
+
+  const handleBackup = async () => {
+    setBackupBusy(true);
+    try {
+      saveBlob(await exportIdentityBackup(), BACKUP_FILENAME);
+      toast({ title: "Backup saved", description: "Keep the file somewhere safe. Restoring it needs your backup passphrase." });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Backup failed", description: err instanceof Error ? err.message : "The backup could not be written.", variant: "destructive" });
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+    setBackupBusy(true);
+    try {
+      setIdentity(await importIdentityBackup(await restoreFile.text(), restorePassphrase));
+      setRestoreFile(null);
+      setRestorePassphrase("");
+      toast({ title: "Key restored from backup!" });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Restore failed", description: err instanceof Error ? err.message : "The backup could not be restored.", variant: "destructive" });
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const copyPublicKey = async () => {
+    if (!identity) return;
+    try {
+      await navigator.clipboard.writeText(identity.publicKey);
+      toast({ title: "Public key copied to clipboard!" });
+    } catch (err) {
+      console.error("Failed to copy text: ", err);
+      toast({ title: "Failed to copy", description: "Could not copy text to clipboard.", variant: "destructive" });
+    }
+  };
+
+  const passphraseFields = (
+    <>
+      <Input
+        id="backup-passphrase"
+        type="password"
+        value={backupPassphrase}
+        onChange={(e) => setBackupPassphrase(e.target.value)}
+        placeholder={`Backup passphrase, at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`}
+      />
+      <Input
+        type="password"
+        value={backupConfirm}
+        onChange={(e) => setBackupConfirm(e.target.value)}
+        placeholder="Repeat the passphrase"
+      />
+      {backupConfirm && backupPassphrase !== backupConfirm && (
+        <p className="text-xs text-destructive">The passphrases do not match.</p>
+      )}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-bg flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg bg-card/80 backdrop-blur-md border-primary/20 shadow-card">
+        <CardHeader>
+            <div className="flex justify-between items-center">
+                <div className="w-8"></div>
+                <CardTitle className="text-center text-2xl font-bold text-primary">My Recipient Key</CardTitle>
+                <ThemeToggle />
+            </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === "loading" && (
+            <div className="flex flex-col items-center justify-center p-8 text-muted-foreground">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            </div>
+          )}
+
+          {(status === "ready" || status === "creating") && !identity && (
+            <div className="space-y-4 text-center">
+              <KeyRound className="mx-auto h-12 w-12 text-primary/70" />
+              <p className="text-muted-foreground">
+                Create a key pair so contacts can share files with you without sending a download code.
+                The private key stays in this browser, and its backup is sealed under a passphrase you choose.
+              </p>
+              <div className="space-y-2 text-left">
+                <Label htmlFor="backup-passphrase">Backup Passphrase</Label>
+                {passphraseFields}
+              </div>
+              <Button onClick={handleCreate} disabled={status === "creating" || !passphraseReady} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
+                {status === "creating" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />} Create My Key
+              </Button>
+            </div>
+          )}
+
+          {(status === "ready" || status === "creating") && identity && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="public-key">Public Key (give this to senders)</Label>
+                <div className="flex gap-2">
+                  <Textarea id="public-key" readOnly value={identity.publicKey} className="font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={copyPublicKey}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">Created {new Date(identity.createdAt).toLocaleString()}</p>
+              </div>
+              <div className="flex flex-col items-center gap-2 rounded-md border border-primary/20 p-4">
+                <QRCodeSVG value={identity.publicKey} size={160} includeMargin={true} level="M" />
+                <Label>Fingerprint</Label>
+                <p className="font-mono text-lg tracking-wider text-center">{identity.fingerprint}</p>
+                <p className="text-xs text-center text-muted-foreground">
+                  Senders see this fingerprint next to your key. Compare it with them in person or on a call before they share anything sensitive.
+                </p>
+                <Label className="pt-2">Signing Fingerprint</Label>
+                <p className="font-mono text-sm tracking-wider text-center">{identity.signingFingerprint}</p>
+                <p className="text-xs text-center text-muted-foreground">
+                  Files you sign show this fingerprint to their recipients, so they can tell the file came from you.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Encrypted Backup</Label>
+                <Button variant="outline" onClick={handleBackup} disabled={backupBusy} className="w-full">
+                  {backupBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />} Download Backup
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  The backup is sealed under the passphrase you chose for this key.
+                  Without it, clearing this browser's data loses the key and every file shared with it.
+                </p>
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={status === "creating"} className="w-full">
+                    <RefreshCw className="mr-2 h-4 w-4" /> Replace Key
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Replace your key?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Files already shared with your current public key can no longer be opened in this browser.
+                      Choose a passphrase for the new key's backup.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <div className="space-y-2">{passphraseFields}</div>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel onClick={clearPassphrase}>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleCreate} disabled={!passphraseReady}>Replace</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+
+          {(status === "ready" || status === "creating") && (
+            <div className="space-y-2 border-t border-primary/20 pt-4">
+              <Label htmlFor="restore-file">Restore From Backup</Label>
+              <Input
+                id="restore-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+              />
+              <Input
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                placeholder="Backup passphrase"
+              />
+              <Button
+                variant="outline"
+                onClick={handleRestore}
+                disabled={backupBusy || status === "creating" || !restoreFile || !restorePassphrase}
+                className="w-full"
+              >
+                {backupBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />} Restore Key
+              </Button>
+              {identity && (
+                <p className="text-xs text-muted-foreground">Restoring replaces the key currently in this browser.</p>
+              )}
+            </div>
+          )}
+
+          {status === "error" && (
+            <div className="flex flex-col items-center justify-center gap-4 rounded-md border border-destructive bg-destructive/10 p-8 text-destructive">
+              <AlertTriangle className="h-10 w-10" />
+              <p className="text-center font-medium">{errorMessage}</p>
+              <Button variant="destructive" onClick={() => window.location.href = '/'}>Go Home</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, useLocation } from "react-router-dom";
+import { AlertTriangle, Ban, CalendarClock, CheckCircle, Clock, Download, Loader2, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { manageShare, type ManageRequest, type ShareStatus } from "@/lib/manage";
+import { DEFAULT_SHARE_POLICY, expiryDate, getSharePolicy, type ShareExpiry } from "@/lib/share-policy";
+import { useToast } from "@/hooks/use-toast";
+import { ExpiryPicker } from "@/components/ExpiryPicker";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+type Status = "loading" | "ready" | "working" | "deleted" | "error";
+
+export default function ManagePage() {
+  const { fileId } = useParams<{ fileId: string }>();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const [status, setStatus] = useState<Status>("loading");
+  const [share, setShare] = useState<ShareStatus | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [sharePolicy, setSharePolicy] = useState(DEFAULT_SHARE_POLICY);
+  const [maxDownloads, setMaxDownloads] = useState(1);
+  const [unlimitedDownloads, setUnlimitedDownloads] = useState(false);
+  const [changeExpiry, setChangeExpiry] = useState(false);
+  const [expiry, setExpiry] = useState<ShareExpiry | null>(null);
+
+  const token = useMemo(() => location.hash.slice(1), [location.hash]);
+
+  useEffect(() => {
+    document.title = "SecureShare - Manage Share";
+  }, []);
+
+  useEffect(() => {
+    getSharePolicy().then(setSharePolicy).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (!fileId || !token) {
+      setStatus("error");
+      setErrorMessage("This management link is incomplete.");
+      return;
+    }
+    const getStatus = async () => {
+      try {
+        const current = await manageShare(fileId, token, { action: "status" });
+        setShare(current);
+        setMaxDownloads(current?.max_downloads ?? 1);
+        setUnlimitedDownloads(current?.max_downloads === null);
+        setStatus("ready");
+      } catch (err) {
+        setStatus("error");
+        setErrorMessage(err instanceof Error ? err.message : "An unexpected error occurred.");
+      }
+    };
+    getStatus();
+  }, [fileId, token]);
+
+  const runAction = async (request: ManageRequest, successTitle: string) => {
+    if (!fileId || !token) return;
+    setStatus("working");
+    try {
+      const updated = await manageShare(fileId, token, request);
+      if (request.action === "delete") {
+        setShare(null);
+        setStatus("deleted");
+        return;
+      }
+      setShare(updated);
+      setChangeExpiry(false);
+      setStatus("ready");
+      toast({ title: successTitle });
+    } catch (err) {
+      setStatus("ready");
+      toast({
+        title: "Action failed",
+        description: err instanceof Error ? err.message : "An unknown error occurred.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isActive = share
+    ? new Date(share.expires_at).getTime() > Date.now() && (share.max_downloads === null || share.download_count < share.max_downloads)
+    : false;
+
+  // Retention counts from upload, so a share can be extended only up to its original limit.
+  const uploadedAt = share ? new Date(share.created_at).getTime() : undefined;
+  const newMaxDownloads = unlimitedDownloads ? null : maxDownloads;
+  const downloadLimitValid = unlimitedDownloads || (Number.isInteger(maxDownloads) && maxDownloads >= 1 && maxDownloads <= sharePolicy.max_downloads);
+  const hasChanges = share !== null && (newMaxDownloads !== share.max_downloads || changeExpiry);
+  const changesValid = downloadLimitValid && (!changeExpiry || expiry !== null);
+
+  return (
+    <div className="min-h-screen bg-gradient-bg flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg bg-card/80 backdrop-blur-md border-primary/20 shadow-card">
+        <CardHeader>
+            <div className="flex justify-between items-center">
+                <div className="w-8"></div>
+                <CardTitle className="text-center text-2xl font-bold text-primary">Manage Share</CardTitle>
+                <ThemeToggle />
+            </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === "loading" && (
+            <div className="flex flex-col items-center justify-center p-8 text-muted-foreground">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+              <p className="mt-4">Fetching share details...</p>
+            </div>
+          )}
+
+          {(status === "ready" || status === "working") && share && (
+            <>
+              <div className="space-y-3 rounded-md border border-border bg-background/50 p-4">
+                <p className={isActive ? "font-semibold text-success" : "font-semibold text-destructive"}>
+                  {isActive ? "Link is active" : "Link is no longer active"}
+                </p>
+                {share.available_from && new Date(share.available_from).getTime() > Date.now() && (
+                  <p className="flex items-center text-sm text-muted-foreground">
+                    <CalendarClock className="mr-2 h-4 w-4" /> Opens {new Date(share.available_from).toLocaleString()}
+                  </p>
+                )}
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <Clock className="mr-2 h-4 w-4" /> Expires {new Date(share.expires_at).toLocaleString()}
+                </p>
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <Download className="mr-2 h-4 w-4" />
+                  {share.max_downloads === null
+                    ? `${share.download_count} download${share.download_count === 1 ? "" : "s"} so far, no limit`
+                    : `${share.download_count} of ${share.max_downloads} download${share.max_downloads > 1 ? "s" : ""} used`}
+                </p>
+              </div>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="change-expiry">Change Expiry</Label>
+                    <Switch id="change-expiry" checked={changeExpiry} onCheckedChange={setChangeExpiry} />
+                  </div>
+                  {changeExpiry && <ExpiryPicker id="extend-by" maxSeconds={sharePolicy.max_retention_seconds} since={uploadedAt} onChange={setExpiry} />}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-downloads">Download Limit</Label>
+                  <Input
+                    id="max-downloads"
+                    type="number"
+                    min={1}
+                    max={sharePolicy.max_downloads}
+                    step={1}
+                    value={unlimitedDownloads ? "" : String(maxDownloads)}
+                    placeholder={unlimitedDownloads ? "Unlimited" : undefined}
+                    disabled={unlimitedDownloads}
+                    onChange={(e) => setMaxDownloads(Number(e.target.value))}
+                  />
+                  {!downloadLimitValid && (
+                    <p className="text-xs text-destructive">Choose from 1 to {sharePolicy.max_downloads} downloads.</p>
+                  )}
+                  {sharePolicy.allow_unlimited_downloads && (
+                    <div className="flex items-center justify-between gap-4">
+                      <Label htmlFor="unlimited-downloads" className="font-normal text-muted-foreground">Unlimited downloads until it expires</Label>
+                      <Switch id="unlimited-downloads" checked={unlimitedDownloads} onCheckedChange={setUnlimitedDownloads} />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <Button
+                onClick={() => runAction({
+                  action: "update",
+                  max_downloads: newMaxDownloads,
+                  ...(changeExpiry && expiry && { expires_at: expiryDate(expiry).toISOString() }),
+                }, "Share updated")}
+                disabled={!hasChanges || !changesValid || status === "working"}
+                className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow"
+              >
+                {status === "working" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save Changes
+              </Button>
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => runAction({ action: "revoke" }, "Link revoked")}
+                  disabled={!isActive || status === "working"}
+                  className="w-full"
+                >
+                  <Ban className="mr-2 h-4 w-4" /> Revoke Link
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" disabled={status === "working"} className="w-full">
+                      <Trash2 className="mr-2 h-4 w-4" /> Delete Now
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this share?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The encrypted file is removed from the server immediately and the link stops working. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => runAction({ action: "delete" }, "Share deleted")}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </>
+          )}
+
+          {status === "deleted" && (
+            <div className="space-y-6 text-center p-8">
+              <CheckCircle className="mx-auto h-16 w-16 text-success" />
+              <h3 className="text-2xl font-bold">Share Deleted</h3>
+              <p className="text-muted-foreground">The encrypted file has been removed and the link no longer works.</p>
+              <Button onClick={() => window.location.href = '/'} className="w-full">Share Another File</Button>
+            </div>
+          )}
+
+          {status === "error" && (
+            <div className="flex flex-col items-center justify-center gap-4 rounded-md border border-destructive bg-destructive/10 p-8 text-destructive">
+              <AlertTriangle className="h-10 w-10" />
+              <p className="text-center font-medium">{errorMessage}</p>
+              <Button variant="destructive" onClick={() => window.location.href = '/'}>Go Home</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
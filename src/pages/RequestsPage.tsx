@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { AlertTriangle, Inbox, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileRequestCard } from "@/components/FileRequestCard";
+import {
+  createFileRequest,
+  MAX_REQUEST_UPLOADS,
+  REQUEST_FILE_MAX_DOWNLOADS,
+  REQUEST_FILE_RETENTION_DAYS,
+} from "@/lib/file-requests";
+import { listRequestKeys, type RequestKey } from "@/lib/keystore";
+import { useToast } from "@/hooks/use-toast";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+type Status = "loading" | "ready" | "creating" | "error";
+
+const expiryOptions = [
+  { days: 1, label: "1 Day" },
+  { days: 7, label: "7 Days" },
+  { days: 30, label: "30 Days" },
+];
+
+const uploadLimitOptions = [1, 3, 5, 10, MAX_REQUEST_UPLOADS];
+
+export default function RequestsPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<Status>("loading");
+  const [requests, setRequests] = useState<RequestKey[]>([]);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [maxUploads, setMaxUploads] = useState(1);
+
+  useEffect(() => {
+    document.title = "SecureShare - File Requests";
+    listRequestKeys()
+      .then((stored) => {
+        setRequests(stored);
+        setStatus("ready");
+      })
+      .catch((err) => {
+        console.error(err);
+        setErrorMessage("This browser's key storage is unavailable. Private browsing modes often disable it.");
+        setStatus("error");
+      });
+  }, []);
+
+  const handleCreate = async () => {
+    setStatus("creating");
+    try {
+      const created = await createFileRequest(label.trim(), expiresInDays, maxUploads);
+      setRequests(current => [created, ...current]);
+      setLabel("");
+      toast({ title: "Request created", description: "Copy its link and send it to whoever should upload." });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Could not create the request", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    } finally {
+      setStatus("ready");
+    }
+  };
+
+  const handleForget = (requestId: string) =>
+    setRequests(current => current.filter(request => request.requestId !== requestId));
+
+  return (
+    <div className="min-h-screen bg-gradient-bg flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg bg-card/80 backdrop-blur-md border-primary/20 shadow-card">
+        <CardHeader>
+            <div className="flex justify-between items-center">
+                <div className="w-8"></div>
+                <CardTitle className="text-center text-2xl font-bold text-primary">File Requests</CardTitle>
+                <ThemeToggle />
+            </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === "loading" && (
+            <div className="flex flex-col items-center justify-center p-8 text-muted-foreground">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            </div>
+          )}
+
+          {(status === "ready" || status === "creating") && (
+            <>
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Ask someone to send you files. The link carries a new public key; whatever is uploaded through it
+                  can only be opened with the private key kept in this browser. Received files are kept
+                  for up to {REQUEST_FILE_RETENTION_DAYS} days and can be downloaded up to {REQUEST_FILE_MAX_DOWNLOADS} times.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="request-label">Label (only you see it)</Label>
+                  <Input id="request-label" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g., Signed contract from ACME" maxLength={80} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="request-expires">Open For</Label>
+                    <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                      <SelectTrigger id="request-expires"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {expiryOptions.map(option =>
+                          <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="request-uploads">Upload Limit</Label>
+                    <Select value={String(maxUploads)} onValueChange={(value) => setMaxUploads(Number(value))}>
+                      <SelectTrigger id="request-uploads"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {uploadLimitOptions.map(n =>
+                          <SelectItem key={n} value={String(n)}>{n} upload{n > 1 ? 's' : ''}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button onClick={handleCreate} disabled={status === "creating"} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
+                  {status === "creating" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />} Create Request Link
+                </Button>
+              </div>
+
+              {requests.length === 0 ? (
+                <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                  <Inbox className="h-10 w-10 text-primary/70" />
+                  <p className="text-sm">No requests in this browser yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {requests.map(request => (
+                    <FileRequestCard key={request.requestId} requestKey={request} onForget={handleForget} />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {status === "error" && (
+            <div className="flex flex-col items-center justify-center gap-4 rounded-md border border-destructive bg-destructive/10 p-8 text-destructive">
+              <AlertTriangle className="h-10 w-10" />
+              <p className="text-center font-medium">{errorMessage}</p>
+              <Button variant="destructive" onClick={() => window.location.href = '/'}>Go Home</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useParams, useLocation } from "react-router-dom";
 import { useDropzone } from "react-dropzone";
-import { UploadCloud, File as FileIcon, CheckCircle, Copy, AlertTriangle, Loader2, X, Share2, Palette } from "lucide-react";
+import { UploadCloud, File as FileIcon, Files, CheckCircle, Copy, AlertTriangle, Loader2, X, Share2, Palette, Settings2, KeyRound, Users, Inbox, PenLine, RotateCcw, Eye, Type, CalendarClock } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -15,10 +18,22 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { generateDownloadCode, encryptFile } from "@/lib/crypto";
+import { generateDownloadCode, generateManagementToken, hashManagementToken, importRecipientPublicKey, keyFingerprint, ciphertextLength, type BundleEntry, type PaddingScheme } from "@/lib/crypto";
+import { bundlePath } from "@/lib/bundle";
+import { cryptoWorker } from "@/lib/crypto-worker";
+import { manageShare, manageUrl } from "@/lib/manage";
+import { enrollServerShare } from "@/lib/server-assist";
+import { discardPendingUpload, loadPendingUpload, savePendingUpload, uploadCiphertext, type PendingUpload } from "@/lib/upload";
+import { getFileRequestStatus, REQUEST_FILE_RETENTION_DAYS } from "@/lib/file-requests";
+import { loadIdentity, type Identity } from "@/lib/keystore";
+import { previewKind } from "@/lib/preview";
+import { DEFAULT_SHARE_POLICY, expiryDate, getSharePolicy, type ShareExpiry } from "@/lib/share-policy";
+import type { KdfName } from "@/lib/kdf";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { ExpiryPicker } from "@/components/ExpiryPicker";
+import { FileHash } from "@/components/FileHash";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { useTheme } from "@/components/ThemeProvider";
 
@@ -31,22 +46,116 @@ const accents = [
   { name: "amber", color: "bg-[hsl(43,96%,56%)]" },
 ];
 
+const paddingOptions: { value: PaddingScheme; label: string }[] = [
+  { value: "none", label: "None (exact size visible)" },
+  { value: "padme", label: "PADMÉ (up to 12% larger)" },
+  { value: "pow2", label: "Power of two (up to 2x larger)" },
+];
+
+/** The longest text snippet that can be shared. */
+const MAX_SNIPPET_LENGTH = 64 * 1024;
+
+/** The name a text snippet is encrypted under. Recipients see the text inline rather than this file. */
+const SNIPPET_FILE_NAME = "secret.txt";
+
+const kdfOptions: { value: KdfName; label: string }[] = [
+  { value: "PBKDF2", label: "PBKDF2 (fastest)" },
+  { value: "Argon2id", label: "Argon2id (memory-hard, 64 MB)" },
+];
+
 export default function UploadPage() {
-  const [file, setFile] = useState<File | null>(null);
+  // Opened through a file request link (/r/:requestId#publicKey), the page sends to the requester's key only.
+  const { requestId } = useParams<{ requestId: string }>();
+  const location = useLocation();
+  const requestPublicKey = useMemo(() => (requestId ? location.hash.slice(1) : ""), [requestId, location.hash]);
+  const [requestKey, setRequestKey] = useState<CryptoKey | null>(null);
+  const [requestFingerprint, setRequestFingerprint] = useState("");
+  const [requestError, setRequestError] = useState("");
+  const [mode, setMode] = useState<"files" | "text">("files");
+  const [files, setFiles] = useState<File[]>([]);
+  const [snippet, setSnippet] = useState("");
   const [status, setStatus] = useState<Status>("idle");
   const [progress, setProgress] = useState(0);
   const [shareUrl, setShareUrl] = useState("");
+  const [manageLink, setManageLink] = useState("");
+  const [fileHash, setFileHash] = useState("");
   const [errorMessage, setErrorMessage] = useState("");
-  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [sharePolicy, setSharePolicy] = useState(DEFAULT_SHARE_POLICY);
+  const [expiry, setExpiry] = useState<ShareExpiry | null>({ seconds: 24 * 60 * 60 });
   const [maxDownloads, setMaxDownloads] = useState(1);
+  const [unlimitedDownloads, setUnlimitedDownloads] = useState(false);
+  const [scheduleRelease, setScheduleRelease] = useState(false);
+  const [availableFrom, setAvailableFrom] = useState("");
+  const [shareOpensAt, setShareOpensAt] = useState("");
   const [instructions, setInstructions] = useState("");
+  const [padding, setPadding] = useState<PaddingScheme>("none");
+  const [kdf, setKdf] = useState<KdfName>("PBKDF2");
+  const [serverAssisted, setServerAssisted] = useState(false);
+  const [password, setPassword] = useState("");
+  const [recipientKeys, setRecipientKeys] = useState("");
+  const [includeCode, setIncludeCode] = useState(true);
+  const [recipientFingerprints, setRecipientFingerprints] = useState<(string | null)[]>([]);
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  const [signUpload, setSignUpload] = useState(false);
+  const [viewOnly, setViewOnly] = useState(false);
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const { accent, setAccent } = useTheme();
 
+  // Signing is offered only once this browser has an identity.
+  useEffect(() => {
+    loadIdentity().then(setIdentity).catch(() => setIdentity(null));
+  }, []);
+
+  // Without the server's limits the defaults are offered; the server checks the choice either way.
+  useEffect(() => {
+    getSharePolicy().then(setSharePolicy).catch(console.error);
+  }, []);
+
+  // An upload interrupted by a reload or a lost connection is offered for resuming.
+  useEffect(() => {
+    loadPendingUpload().then(setPendingUpload).catch(() => setPendingUpload(null));
+  }, []);
+
+  useEffect(() => {
+    if (!requestId) return;
+    if (!requestPublicKey) {
+      setRequestError("This request link is incomplete. Ask the requester to send it again.");
+      return;
+    }
+    const checkRequest = async () => {
+      try {
+        const key = await importRecipientPublicKey(requestPublicKey);
+        const request = await getFileRequestStatus(requestId);
+        if (!request || new Date(request.expires_at) <= new Date() || request.remaining_uploads < 1) {
+          setRequestError("This file request is closed or has already received all the files it accepts.");
+          return;
+        }
+        setRequestKey(key);
+        setRequestFingerprint(await keyFingerprint(key));
+      } catch (err) {
+        console.error(err);
+        setRequestError("This request link is invalid or could not be checked.");
+      }
+    };
+    checkRequest();
+  }, [requestId, requestPublicKey]);
+
+  // A text snippet goes through the same pipeline as a single file.
+  const selected = useMemo(
+    () => mode === "text"
+      ? (snippet ? [new File([snippet], SNIPPET_FILE_NAME, { type: "text/plain" })] : [])
+      : files,
+    [mode, snippet, files]
+  );
+
   useEffect(() => {
     switch (status) {
       case "idle":
-        document.title = file ? `Ready to Share: ${file.name}` : "SecureShare - Upload File";
+        document.title = selected.length > 0
+          ? `Ready to Share: ${mode === "text" ? "Text" : selected.length === 1 ? selected[0].name : `${selected.length} files`}`
+          : requestId ? "SecureShare - Send a File" : "SecureShare - Upload File";
         break;
       case "uploading":
         document.title = "SecureShare - Uploading...";
@@ -58,73 +167,246 @@ export default function UploadPage() {
         document.title = "SecureShare - Upload Failed";
         break;
     }
-  }, [status, file]);
+  }, [status, selected, mode, requestId]);
+
+  const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+  // What is actually encrypted: the snippet in text mode, and a bundle is the selected files back to back.
+  const plaintextSize = selected.reduce((sum, f) => sum + f.size, 0);
+
+  const recipientLines = recipientKeys.split("\n").map(line => line.trim()).filter(Boolean);
+  // Without recipients, the download code is the only way in and cannot be turned off.
+  // A file request never uses one: the requester's key is the only way in.
+  const usesCode = !requestId && (includeCode || recipientLines.length === 0);
+  // View-only sharing needs a file recipients can preview, so it is offered for single previewable files.
+  // Snippets are always shown inline, so the option does not apply to them.
+  const canViewOnly = mode === "files" && files.length === 1 && previewKind(files[0].name, files[0].type, files[0].size) !== null;
+  // A scheduled link must open before it expires; a lifetime is counted from now, as the upload is about to finish.
+  const releaseAt = scheduleRelease && availableFrom ? new Date(availableFrom) : null;
+  let releaseProblem = "";
+  if (scheduleRelease) {
+    if (!releaseAt || Number.isNaN(releaseAt.getTime())) releaseProblem = "Choose when the link opens.";
+    else if (releaseAt.getTime() <= Date.now()) releaseProblem = "Choose a time in the future.";
+    else if (expiry && releaseAt >= expiryDate(expiry)) releaseProblem = "The link would expire before it opens.";
+  }
+  // A file request sets its own expiry and download limit, so neither needs to be valid there.
+  const downloadLimitValid = unlimitedDownloads || (Number.isInteger(maxDownloads) && maxDownloads >= 1 && maxDownloads <= sharePolicy.max_downloads);
+  const shareSettingsValid = Boolean(requestId) || (expiry !== null && downloadLimitValid && !releaseProblem);
+
+  const recipientText = recipientLines.join("\n");
+  useEffect(() => {
+    let cancelled = false;
+    const lines = recipientText ? recipientText.split("\n") : [];
+    Promise.all(lines.map(line => importRecipientPublicKey(line).then(keyFingerprint, () => null)))
+      .then(fingerprints => { if (!cancelled) setRecipientFingerprints(fingerprints); });
+    return () => { cancelled = true; };
+  }, [recipientText]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      setFile(acceptedFiles[0]);
+      setFiles(current => [...current, ...acceptedFiles]);
       setStatus("idle");
       setErrorMessage("");
     }
   }, []);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    maxFiles: 1,
-    multiple: false,
-  });
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({ onDrop });
 
-  const handleUpload = async () => {
-    if (!file) return;
+  const removeFile = (index: number) => setFiles(current => current.filter((_, i) => i !== index));
 
-    setStatus("uploading");
-    setProgress(0);
-    setErrorMessage("");
+  // Secrets are burn-after-reading by default; the limit can still be raised before sharing.
+  const handleModeChange = (value: string) => {
+    const next = value === "text" ? "text" : "files";
+    if (next === "text" && mode !== "text") {
+      setMaxDownloads(1);
+      setUnlimitedDownloads(false);
+    }
+    setMode(next);
+  };
 
-    try {
-      const code = generateDownloadCode();
-      
-      setProgress(25);
-      const { ciphertext, envelope } = await encryptFile(file, code, instructions);
-      setProgress(50);
-
-      const fileId = crypto.randomUUID();
-      const filePath = fileId;
-
-      const { error: uploadError } = await supabase.storage
-        .from("files")
-        .upload(filePath, ciphertext, {
-          contentType: "application/octet-stream",
-        });
+  /**
+   * Encrypts the selected files and keeps the result, so that the upload can be resumed after a reload.
+   * Encryption fills the first 60% of the bar.
+   * @param {AbortSignal} signal Cancels the encryption.
+   */
+  const prepareUpload = async (signal: AbortSignal): Promise<PendingUpload> => {
+    const code = usesCode ? generateDownloadCode() : null;
+    const recipients = requestId ? [requestKey] : await Promise.all(recipientLines.map(async (line, index) => {
+      try {
+        return await importRecipientPublicKey(line);
+      } catch (err) {
+        throw new Error(`Recipient key ${index + 1}: ${err instanceof Error ? err.message : "invalid key"}`);
+      }
+    }));
+    
+    const kdfParams = await cryptoWorker.calibrateKdf(kdf);
+    signal.throwIfAborted();
+    setProgress(5);
 
-      if (uploadError) throw new Error(`Storage error: ${uploadError.message}`);
-      setProgress(75);
+    // Several files are packed into one bundle first; hashing them fills 5-20% of the bar.
+    let file = selected[0];
+    let manifest: BundleEntry[] | undefined;
+    if (selected.length > 1) {
+      const bundle = await cryptoWorker.createBundle(
+        selected.map(f => ({ path: bundlePath(f), file: f })),
+        { signal, onProgress: (processed, total) => setProgress(5 + Math.round((processed / Math.max(total, 1)) * 15)) }
+      );
+      file = bundle.file;
+      manifest = bundle.manifest;
+    }
+    setProgress(20);
 
-      const expires_at = new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString();
+    // Encryption runs in the crypto worker and fills 20-60% of the bar by bytes processed.
+    const { ciphertext, envelope, sha256, enrollment } = await cryptoWorker.encryptFile(file, code, {
+      instructions,
+      padding,
+      kdfParams,
+      manifest,
+      serverAssisted: usesCode && serverAssisted,
+      password: (usesCode && password) || undefined,
+      recipients,
+      signingKeyPair: signUpload && identity ? identity.signingKeyPair : undefined,
+      viewOnly: canViewOnly && viewOnly,
+      snippet: mode === "text",
+      signal,
+      onProgress: (processed, total) => setProgress(20 + Math.round((processed / Math.max(total, 1)) * 40)),
+    });
+    setProgress(60);
 
-      const { error: dbError } = await supabase.from("files").insert({
-        id: fileId,
-        ...envelope,
-        expires_at,
-        max_downloads: maxDownloads,
-        theme_accent: accent,
-      });
+    const pending: PendingUpload = {
+      fileId: crypto.randomUUID(),
+      label: mode === "text" ? "a text snippet" : selected.length === 1 ? selected[0].name : `${selected.length} files`,
+      ciphertext,
+      envelope,
+      enrollment,
+      sha256,
+      code,
+      expiry,
+      maxDownloads: unlimitedDownloads ? null : maxDownloads,
+      availableFrom: !requestId && releaseAt ? releaseAt.toISOString() : null,
+      themeAccent: accent,
+      requestId: requestId ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    // Without room to keep the ciphertext the upload still works; it just cannot be resumed after a reload.
+    await savePendingUpload(pending).catch((err) => console.warn("The upload cannot be resumed after a reload:", err));
+    return pending;
+  };
 
-      if (dbError) throw new Error(`Database error: ${dbError.message}`);
-      
-      const url = `${window.location.origin}/d/${fileId}#${code}`;
-      setShareUrl(url);
-      setProgress(100);
-      setStatus("success");
+  /**
+   * Uploads an encrypted file in resumable chunks, filling 60-90% of the bar, then publishes the share.
+   * @param {PendingUpload} pending The encrypted file and its share settings.
+   * @param {AbortSignal} signal Cancels the upload.
+   */
+  const completeUpload = async (pending: PendingUpload, signal: AbortSignal) => {
+    const { fileId, envelope, enrollment, code } = pending;
+    await uploadCiphertext(pending, {
+      signal,
+      onProgress: (sent, total) => setProgress(60 + Math.round((sent / Math.max(total, 1)) * 30)),
+    });
+    if (signal.aborted) {
+      await supabase.storage.from("files").remove([fileId]);
+      signal.throwIfAborted();
+    }
+    setProgress(90);
 
+    const expires_at = expiryDate(pending.expiry).toISOString();
+    // Made only now, so it is never kept with the pending upload.
+    const manageToken = generateManagementToken();
+
+    // For a file request the database replaces the expiry and download limit with the request's own.
+    const { error: dbError } = await supabase.from("files").insert({
+      id: fileId,
+      ...envelope,
+      expires_at,
+      max_downloads: pending.maxDownloads,
+      available_from: pending.availableFrom ?? null,
+      theme_accent: pending.themeAccent,
+      manage_token_hash: await hashManagementToken(manageToken),
+      request_id: pending.requestId,
+    });
+
+    if (dbError) {
+      await supabase.storage.from("files").remove([fileId]);
+      await discardPendingUpload(fileId);
+      throw new Error(`Database error: ${dbError.message}`);
+    }
+
+    // Without its server share a server-assisted file can never be decrypted, so discard it if enrollment fails.
+    if (enrollment) {
+      try {
+        await enrollServerShare(fileId, manageToken, enrollment);
+      } catch (err) {
+        await manageShare(fileId, manageToken, { action: "delete" }).catch(console.error);
+        await discardPendingUpload(fileId);
+        throw err;
+      }
+    }
+    await discardPendingUpload(fileId).catch(console.error);
+    
+    const url = code ? `${window.location.origin}/d/${fileId}#${code}` : `${window.location.origin}/d/${fileId}`;
+    setShareUrl(url);
+    setManageLink(manageUrl(fileId, manageToken));
+    setFileHash(pending.sha256);
+    setShareOpensAt(pending.availableFrom ?? "");
+    setProgress(100);
+    setStatus("success");
+  };
+
+  /**
+   * Runs an upload from start to finish. An upload that fails part-way is kept and offered for resuming.
+   * @param {(signal: AbortSignal) => Promise<PendingUpload>} getPending Encrypts the files, or returns an interrupted upload.
+   */
+  const runUpload = async (getPending: (signal: AbortSignal) => Promise<PendingUpload>) => {
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    abortControllerRef.current = abortController;
+
+    setStatus("uploading");
+    setErrorMessage("");
+    setPendingUpload(null);
+
+    let pending: PendingUpload | null = null;
+    try {
+      pending = await getPending(signal);
+      await completeUpload(pending, signal);
     } catch (err) {
+      if (signal.aborted) {
+        if (pending) await discardPendingUpload(pending.fileId).catch(console.error);
+        setStatus("idle");
+        setProgress(0);
+        toast({ title: "Upload cancelled" });
+        return;
+      }
       console.error(err);
       const message = err instanceof Error ? err.message : "An unknown error occurred.";
       setErrorMessage(message);
       setStatus("error");
+      setPendingUpload(await loadPendingUpload().catch(() => null));
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  const handleUpload = () => {
+    if (selected.length === 0 || !shareSettingsValid) return;
+    setProgress(0);
+    return runUpload(prepareUpload);
+  };
+
+  const handleResume = () => {
+    if (!pendingUpload) return;
+    setProgress(60);
+    return runUpload(async () => pendingUpload);
+  };
+
+  const handleDiscardPending = async () => {
+    if (!pendingUpload) return;
+    await discardPendingUpload(pendingUpload.fileId).catch(console.error);
+    setPendingUpload(null);
+  };
+
+  const cancelUpload = () => abortControllerRef.current?.abort();
+
   const copyToClipboard = async (text: string, label: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -156,10 +438,16 @@ export default function UploadPage() {
   };
 
   const resetState = () => {
-    setFile(null);
+    setFiles([]);
+    setSnippet("");
     setStatus("idle");
     setProgress(0);
     setShareUrl("");
+    setManageLink("");
+    setFileHash("");
+    setShareOpensAt("");
+    setPassword("");
+    setRecipientKeys("");
     setErrorMessage("");
   };
 
@@ -168,74 +456,282 @@ export default function UploadPage() {
       <Card className="w-full max-w-lg bg-card/80 backdrop-blur-md border-primary/20 shadow-card">
         <CardHeader>
             <div className="flex justify-between items-center">
-                <div className="w-8"></div>
-                <CardTitle className="text-center text-2xl font-bold text-primary">Secure Share</CardTitle>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" asChild title="My recipient key">
+                    <a href="/keys"><KeyRound className="h-5 w-5" /></a>
+                  </Button>
+                  <Button variant="ghost" size="icon" asChild title="File requests">
+                    <a href="/requests"><Inbox className="h-5 w-5" /></a>
+                  </Button>
+                </div>
+                <CardTitle className="text-center text-2xl font-bold text-primary">{requestId ? "Send a File" : "Secure Share"}</CardTitle>
                 <ThemeToggle />
             </div>
         </CardHeader>
         <CardContent>
-          {status !== "success" && (
+          {requestError && (
+            <div className="flex flex-col items-center justify-center gap-4 rounded-md border border-destructive bg-destructive/10 p-8 text-destructive">
+              <AlertTriangle className="h-10 w-10" />
+              <p className="text-center font-medium">{requestError}</p>
+            </div>
+          )}
+
+          {requestId && !requestKey && !requestError && (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            </div>
+          )}
+
+          {status !== "success" && (!requestId || requestKey) && (
             <div className="space-y-6">
-              <div
-                {...getRootProps()}
-                className={cn(
-                  "border-2 border-dashed border-primary/30 rounded-lg p-12 text-center cursor-pointer transition-colors",
-                  isDragActive && "border-primary bg-primary/10"
-                )}
-              >
-                <input {...getInputProps()} />
-                <UploadCloud className="mx-auto h-12 w-12 text-primary/70" />
-                <p className="mt-4 text-muted-foreground">
-                  {isDragActive ? "Drop the file here" : "Drag & drop a file here, or click to select"}
-                </p>
-              </div>
+              {requestKey && (
+                <div className="rounded-md border border-primary/20 p-3 text-sm text-muted-foreground">
+                  Files you send here are encrypted to the requester's key, which only they hold. They are kept for up to {REQUEST_FILE_RETENTION_DAYS} days.
+                  <p className="mt-1 font-mono text-xs">Key fingerprint: {requestFingerprint}</p>
+                </div>
+              )}
+              {pendingUpload && status !== "uploading" && (
+                <div className="space-y-3 rounded-md border border-primary/20 bg-primary/10 p-4">
+                  <p className="text-sm">
+                    The upload of <span className="font-semibold break-all">{pendingUpload.label}</span> was interrupted.
+                    It is already encrypted and continues from where it stopped.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button onClick={handleResume} size="sm" className="flex-1">
+                      <RotateCcw className="mr-2 h-4 w-4" /> Resume Upload
+                    </Button>
+                    <Button onClick={handleDiscardPending} size="sm" variant="outline">Discard</Button>
+                  </div>
+                </div>
+              )}
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="files"><Files className="mr-2 h-4 w-4" /> Files</TabsTrigger>
+                  <TabsTrigger value="text"><Type className="mr-2 h-4 w-4" /> Text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="files">
+                  <div
+                    {...getRootProps()}
+                    className={cn(
+                      "border-2 border-dashed border-primary/30 rounded-lg p-12 text-center cursor-pointer transition-colors",
+                      isDragActive && "border-primary bg-primary/10"
+                    )}
+                  >
+                    <input {...getInputProps()} />
+                    <UploadCloud className="mx-auto h-12 w-12 text-primary/70" />
+                    <p className="mt-4 text-muted-foreground">
+                      {isDragActive ? "Drop the files here" : "Drag & drop files or a folder here, or click to select"}
+                    </p>
+                  </div>
+                </TabsContent>
+                <TabsContent value="text" className="space-y-2">
+                  <Textarea
+                    value={snippet}
+                    onChange={(e) => setSnippet(e.target.value)}
+                    placeholder="Paste a password, API key or note..."
+                    maxLength={MAX_SNIPPET_LENGTH}
+                    spellCheck={false}
+                    autoComplete="off"
+                    className="min-h-32 font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The text is encrypted in your browser and shown to the recipient with a reveal button. By default it can be read once.
+                  </p>
+                </TabsContent>
+              </Tabs>
 
-              {file && (
+              {selected.length > 0 && (
                 <div className="space-y-4">
-                  <div className="flex items-center justify-between rounded-md border border-border bg-background/50 p-3">
-                    <div className="flex items-center gap-3">
-                      <FileIcon className="h-6 w-6 text-primary" />
-                      <div>
-                        <p className="font-semibold">{file.name}</p>
-                        <p className="text-sm text-muted-foreground">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                  {mode === "files" && files.length > 1 && (
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span className="flex items-center"><Files className="mr-2 h-4 w-4" /> {files.length} files, sent as one encrypted bundle</span>
+                      <span>{(totalSize / 1024 / 1024).toFixed(2)} MB</span>
+                    </div>
+                  )}
+                  {mode === "files" && (
+                    <div className="max-h-56 space-y-2 overflow-y-auto">
+                      {files.map((f, index) => (
+                        <div key={`${bundlePath(f)}-${index}`} className="flex items-center justify-between rounded-md border border-border bg-background/50 p-3">
+                          <div className="flex min-w-0 items-center gap-3">
+                            <FileIcon className="h-6 w-6 shrink-0 text-primary" />
+                            <div className="min-w-0">
+                              <p className="truncate font-semibold">{files.length > 1 ? bundlePath(f) : f.name}</p>
+                              <p className="text-sm text-muted-foreground">{(f.size / 1024 / 1024).toFixed(2)} MB</p>
+                            </div>
+                          </div>
+                          <Button variant="ghost" size="icon" onClick={() => removeFile(index)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {!requestId && (
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="expires-in">Expires</Label>
+                        <ExpiryPicker id="expires-in" maxSeconds={sharePolicy.max_retention_seconds} onChange={setExpiry} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="max-downloads">Download Limit</Label>
+                        <Input
+                          id="max-downloads"
+                          type="number"
+                          min={1}
+                          max={sharePolicy.max_downloads}
+                          step={1}
+                          value={unlimitedDownloads ? "" : String(maxDownloads)}
+                          placeholder={unlimitedDownloads ? "Unlimited" : undefined}
+                          disabled={unlimitedDownloads}
+                          onChange={(e) => setMaxDownloads(Number(e.target.value))}
+                        />
+                        {!downloadLimitValid && (
+                          <p className="text-xs text-destructive">Choose from 1 to {sharePolicy.max_downloads} downloads.</p>
+                        )}
+                        {sharePolicy.allow_unlimited_downloads && (
+                          <div className="flex items-center justify-between gap-4">
+                            <Label htmlFor="unlimited-downloads" className="font-normal text-muted-foreground">Unlimited downloads until it expires</Label>
+                            <Switch id="unlimited-downloads" checked={unlimitedDownloads} onCheckedChange={setUnlimitedDownloads} />
+                          </div>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between gap-4">
+                          <Label htmlFor="schedule-release" className="flex items-center"><CalendarClock className="mr-2 h-4 w-4" /> Schedule Release</Label>
+                          <Switch id="schedule-release" checked={scheduleRelease} onCheckedChange={setScheduleRelease} />
+                        </div>
+                        {scheduleRelease && (
+                          <>
+                            <Input
+                              id="available-from"
+                              type="datetime-local"
+                              value={availableFrom}
+                              onChange={(e) => setAvailableFrom(e.target.value)}
+                              aria-label="Available from"
+                            />
+                            {releaseProblem
+                              ? <p className="text-xs text-destructive">{releaseProblem}</p>
+                              : <p className="text-xs text-muted-foreground">The link works only from this time on. Until then recipients see a countdown instead of the code prompt.</p>}
+                          </>
+                        )}
                       </div>
                     </div>
-                    <Button variant="ghost" size="icon" onClick={() => setFile(null)}>
-                      <X className="h-4 w-4" />
-                    </Button>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="padding">Hide File Size</Label>
+                    <Select
+                      value={padding}
+                      onValueChange={(value) => setPadding(value as PaddingScheme)}
+                    >
+                      <SelectTrigger id="padding"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {paddingOptions.map(option =>
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    {padding !== "none" && (
+                      <p className="text-xs text-muted-foreground">
+                        Uploads as {(ciphertextLength(plaintextSize, padding) / 1024 / 1024).toFixed(2)} MB so the server cannot see the exact size.
+                      </p>
+                    )}
                   </div>
-                  <div className="grid grid-cols-2 gap-4">
+                  {!requestId && (
                     <div className="space-y-2">
-                      <Label htmlFor="expires-in">Expires In</Label>
-                      <Select
-                        value={String(expiresInHours)}
-                        onValueChange={(value) => setExpiresInHours(Number(value))}
-                      >
-                        <SelectTrigger id="expires-in"><SelectValue /></SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="1">1 Hour</SelectItem>
-                          <SelectItem value="6">6 Hours</SelectItem>
-                          <SelectItem value="24">24 Hours</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <Label htmlFor="recipients" className="flex items-center"><Users className="mr-2 h-4 w-4" /> Recipient Public Keys (optional)</Label>
+                      <Textarea
+                        id="recipients"
+                        placeholder="One public key per line. Recipients open the file with their own key, no code needed."
+                        value={recipientKeys}
+                        onChange={(e) => setRecipientKeys(e.target.value)}
+                        className="font-mono text-xs"
+                      />
+                      {recipientFingerprints.length > 0 && (
+                        <div className="space-y-1">
+                          {recipientFingerprints.map((fingerprint, index) => (
+                            <p key={index} className={`font-mono text-xs ${fingerprint ? "text-muted-foreground" : "text-destructive"}`}>
+                              {index + 1}. {fingerprint ?? "Not a valid public key"}
+                            </p>
+                          ))}
+                          <p className="text-xs text-muted-foreground">Confirm each fingerprint with its recipient before sharing.</p>
+                        </div>
+                      )}
+                      {recipientLines.length > 0 && (
+                        <div className="flex items-center justify-between gap-4">
+                          <Label htmlFor="include-code" className="text-sm font-normal text-muted-foreground">
+                            Also protect with a download code, for anyone without a key
+                          </Label>
+                          <Switch id="include-code" checked={includeCode} onCheckedChange={setIncludeCode} />
+                        </div>
+                      )}
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="max-downloads">Download Limit</Label>
-                      <Select
-                        value={String(maxDownloads)}
-                        onValueChange={(value) => setMaxDownloads(Number(value))}
-                      >
-                        <SelectTrigger id="max-downloads"><SelectValue /></SelectTrigger>
-                        <SelectContent>
-                          {Array.from({ length: 10 }, (_, i) => i + 1).map(n => 
-                            <SelectItem key={n} value={String(n)}>{n} download{n > 1 ? 's' : ''}</SelectItem>
-                          )}
-                        </SelectContent>
-                      </Select>
+                  )}
+                  {usesCode && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="kdf">Code Protection</Label>
+                        <Select
+                          value={kdf}
+                          onValueChange={(value) => setKdf(value as KdfName)}
+                        >
+                          <SelectTrigger id="kdf"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {kdfOptions.map(option =>
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <div className="flex items-center justify-between gap-4 pt-1">
+                          <Label htmlFor="server-assisted" className="text-sm font-normal text-muted-foreground">
+                            Limit code guesses (checked by the server, locks after 5 wrong codes)
+                          </Label>
+                          <Switch id="server-assisted" checked={serverAssisted} onCheckedChange={setServerAssisted} />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="password">Password (optional)</Label>
+                        <Input
+                          id="password"
+                          type="password"
+                          autoComplete="new-password"
+                          placeholder="Share it separately from the link"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                        />
+                        {password && (
+                          <p className="text-xs text-muted-foreground">The recipient needs both the link and this password. Send them through different channels.</p>
+                        )}
+                      </div>
+                    </>
+                  )}
+                  {identity && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="sign-upload" className="flex items-center"><PenLine className="mr-2 h-4 w-4" /> Sign as Me</Label>
+                        <Switch id="sign-upload" checked={signUpload} onCheckedChange={setSignUpload} />
+                      </div>
+                      {signUpload && (
+                        <p className="text-xs text-muted-foreground">
+                          Recipients will see your signing fingerprint, <span className="font-mono">{identity.signingFingerprint}</span>, and can check that the file is unchanged.
+                        </p>
+                      )}
                     </div>
-                  </div>
+                  )}
+                  {canViewOnly && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="view-only" className="flex items-center"><Eye className="mr-2 h-4 w-4" /> View Only</Label>
+                        <Switch id="view-only" checked={viewOnly} onCheckedChange={setViewOnly} />
+                      </div>
+                      {viewOnly && (
+                        <p className="text-xs text-muted-foreground">
+                          Recipients get a preview without a save button. Anyone who can see a file can still copy it, so this only discourages saving.
+                        </p>
+                      )}
+                    </div>
+                  )}
                   <div className="space-y-2">
-                    <Label htmlFor="instructions">Recipient Note (optional, encrypted)</Label>
+                    <Label htmlFor="instructions">{requestId ? "Note to the Requester (optional, encrypted)" : "Recipient Note (optional, encrypted)"}</Label>
                     <Textarea 
                       id="instructions"
                       placeholder="e.g., Here is the report for Q3."
@@ -263,7 +759,12 @@ export default function UploadPage() {
                 </div>
               )}
 
-              {status === "uploading" && <Progress value={progress} className="w-full" />}
+              {status === "uploading" && (
+                <div className="flex items-center gap-3">
+                  <Progress value={progress} className="w-full" />
+                  <Button variant="ghost" size="sm" onClick={cancelUpload}>Cancel</Button>
+                </div>
+              )}
               
               {status === "error" && (
                 <div className="flex items-center gap-3 rounded-md border border-destructive bg-destructive/10 p-3 text-destructive">
@@ -272,29 +773,66 @@ export default function UploadPage() {
                 </div>
               )}
 
-              <Button onClick={handleUpload} disabled={!file || status === "uploading"} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
-                {status === "uploading" ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Encrypting & Uploading...</> : "Encrypt & Share"}
+              <Button onClick={handleUpload} disabled={selected.length === 0 || !shareSettingsValid || status === "uploading"} className="w-full bg-gradient-primary text-primary-foreground hover:shadow-glow">
+                {status === "uploading" ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Encrypting & Uploading...</> : requestId ? "Encrypt & Send" : "Encrypt & Share"}
               </Button>
             </div>
           )}
 
-          {status === "success" && (
+          {status === "success" && requestId && (
             <div className="space-y-6 text-center">
               <CheckCircle className="mx-auto h-16 w-16 text-success" />
-              <h3 className="text-2xl font-bold">File Ready to Share!</h3>
+              <h3 className="text-2xl font-bold">File Sent!</h3>
+              <p className="text-muted-foreground">The requester can now open it with their key. There is no code or link to pass on.</p>
+              {mode === "files" && <FileHash hash={fileHash} />}
+              <div className="text-left">
+                <Label htmlFor="manage-url" className="flex items-center"><Settings2 className="mr-2 h-4 w-4" /> Manage Link (keep private)</Label>
+                <div className="flex gap-2">
+                  <Input id="manage-url" readOnly value={manageLink} className="font-mono"/>
+                  <Button variant="outline" size="icon" onClick={() => copyToClipboard(manageLink, "Manage link")}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">Lets you delete what you sent. It is shown only once.</p>
+              </div>
+              <Button onClick={resetState} className="w-full" variant="outline">Send Another File</Button>
+            </div>
+          )}
+
+          {status === "success" && !requestId && (
+            <div className="space-y-6 text-center">
+              <CheckCircle className="mx-auto h-16 w-16 text-success" />
+              <h3 className="text-2xl font-bold">{mode === "text" ? "Secret Ready to Share!" : "File Ready to Share!"}</h3>
               <div className="p-4 bg-white rounded-lg inline-block shadow-lg">
                 <QRCodeSVG value={shareUrl} size={160} includeMargin={true} level="H" />
               </div>
               <div className="space-y-4 text-left">
                 <div>
-                  <Label htmlFor="share-url">Share Link (includes code)</Label>
+                  <Label htmlFor="share-url">{shareUrl.includes("#") ? "Share Link (includes code)" : "Share Link (opens with the recipients' keys)"}</Label>
                   <div className="flex gap-2">
                     <Input id="share-url" readOnly value={shareUrl} className="font-mono"/>
                     <Button variant="outline" size="icon" onClick={() => copyToClipboard(shareUrl, "Share link")}>
                       <Copy className="h-4 w-4" />
                     </Button>
                   </div>
+                  {password && (
+                    <p className="mt-1 text-xs text-muted-foreground">Recipients also need your password. Do not send it in the same message as this link.</p>
+                  )}
+                  {shareOpensAt && (
+                    <p className="mt-1 text-xs text-muted-foreground">The link opens on {new Date(shareOpensAt).toLocaleString()}. You can send it out before then.</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="manage-url" className="flex items-center"><Settings2 className="mr-2 h-4 w-4" /> Manage Link (keep private)</Label>
+                  <div className="flex gap-2">
+                    <Input id="manage-url" readOnly value={manageLink} className="font-mono"/>
+                    <Button variant="outline" size="icon" onClick={() => copyToClipboard(manageLink, "Manage link")}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">Lets you revoke, delete or extend this share later. It is shown only once.</p>
                 </div>
+                {mode === "files" && <FileHash hash={fileHash} />}
               </div>
               <div className="flex gap-2">
                 <Button onClick={handleNativeShare} className="w-full">
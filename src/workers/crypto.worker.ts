@@ -0,0 +1,63 @@
+/**
+ * SecureShare - Crypto Worker
+ * Executes crypto.ts requests from crypto-worker.ts off the main thread.
+ * Each call gets its own AbortController so the page can cancel it mid-file.
+ */
+
+import { createBundle } from "@/lib/bundle";
+import { decryptFile, decryptFileTo, deriveCodeKey, encryptFile, getFileKey } from "@/lib/crypto";
+import type { CryptoWorkerRequest, CryptoWorkerResponse } from "@/lib/crypto-worker";
+import { calibrateKdf } from "@/lib/kdf";
+
+const scope = self as unknown as Worker;
+const controllers = new Map<number, AbortController>();
+
+const post = (message: CryptoWorkerResponse) => scope.postMessage(message);
+
+/**
+ * Runs a single request and returns its result.
+ * @param {CryptoWorkerRequest} request The request from the page.
+ * @param {AbortSignal} signal Aborted when the page cancels the call.
+ */
+async function handle(request: Exclude<CryptoWorkerRequest, { type: "abort" }>, signal: AbortSignal): Promise<unknown> {
+  const onProgress = (processedBytes: number, totalBytes: number) =>
+    post({ id: request.id, type: "progress", processedBytes, totalBytes });
+
+  switch (request.type) {
+    case "calibrateKdf":
+      return calibrateKdf(request.name);
+    case "createBundle":
+      return createBundle(request.inputs, { onProgress, signal });
+    case "encryptFile":
+      return encryptFile(request.file, request.downloadCode, { ...request.options, onProgress, signal });
+    case "getFileKey":
+      return getFileKey(request.envelope, request.downloadCode, request.password);
+    case "deriveCodeKey":
+      return deriveCodeKey(request.envelope, request.downloadCode, request.password);
+    case "decryptFile":
+      return decryptFile(request.ciphertext, request.envelope, request.fileKey, request.metadata, { onProgress, signal });
+    case "decryptFileTo":
+      return decryptFileTo(request.ciphertext, request.sink, request.totalBytes, request.envelope, request.fileKey, request.metadata, { onProgress, signal });
+  }
+}
+
+scope.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "abort") {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+  try {
+    const result = await handle(request, controller.signal);
+    post({ id: request.id, type: "result", result });
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error(String(error));
+    post({ id: request.id, type: "error", name, message });
+  } finally {
+    controllers.delete(request.id);
+  }
+};
@@ -0,0 +1,108 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { serve } from 'https://deno.land/std@0.190.0/http/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Hashes the token the same way the client did before storing it (hashManagementToken in crypto.ts).
+async function hashToken(token) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares two hex digests without returning early on the first mismatch.
+function digestsMatch(a, b) {
+  if (typeof a !== 'string' || typeof b !== 'string' || a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const requestStatus = (request) => ({
+  expires_at: request.expires_at,
+  max_uploads: request.max_uploads,
+  upload_count: request.upload_count,
+});
+
+serve(async (req) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { requestId, token, action } = await req.json();
+    if (!requestId || !token || !action) {
+      throw new Error('Missing requestId, token or action parameter');
+    }
+
+    // Use the SERVICE_ROLE_KEY for admin-level access to bypass RLS
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: request, error: selectError } = await supabaseAdmin
+      .from('file_requests')
+      .select('id, manage_token_hash, expires_at, max_uploads, upload_count')
+      .eq('id', requestId)
+      .maybeSingle();
+
+    if (selectError) {
+      console.error('Select Error:', selectError);
+      throw new Error('Failed to look up the request.');
+    }
+
+    // Unknown requests and wrong tokens get the same answer, so the endpoint cannot be used to probe request IDs.
+    if (!request || !digestsMatch(request.manage_token_hash, await hashToken(token))) {
+      return json({ error: 'This request does not exist or its key is no longer valid.' }, 403);
+    }
+
+    switch (action) {
+      case 'inbox': {
+        // Only files that can still be downloaded; the rest are waiting for purge-expired.
+        const { data: files, error } = await supabaseAdmin
+          .from('files')
+          .select('id, expires_at, max_downloads, download_count, size_bucket')
+          .eq('request_id', requestId)
+          .gt('expires_at', new Date().toISOString())
+          .order('expires_at', { ascending: false });
+        if (error) throw new Error(`Failed to list the request's files: ${error.message}`);
+        return json({
+          ...requestStatus(request),
+          // A null limit means unlimited downloads, so such a file stays listed until it expires.
+          files: files.filter((file) => file.max_downloads === null || file.download_count < file.max_downloads),
+        });
+      }
+
+      case 'close': {
+        // Closing stops new uploads; files already received stay until they expire.
+        const { data, error } = await supabaseAdmin
+          .from('file_requests')
+          .update({ expires_at: new Date().toISOString() })
+          .eq('id', requestId)
+          .select('expires_at, max_uploads, upload_count')
+          .single();
+        if (error) throw new Error(`Failed to close the request: ${error.message}`);
+        return json(requestStatus(data));
+      }
+
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
+  } catch (error) {
+    console.error('Server Error:', error);
+    return json({ error: error.message }, 400);
+  }
+});
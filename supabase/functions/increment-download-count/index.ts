@@ -7,6 +7,22 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// The signed URL only has to survive until the browser starts the request, so keep it short.
+const SIGNED_URL_EXPIRES_IN_SECONDS = 30;
+
+// How long a reservation holds a download while the recipient fetches and decrypts the file.
+const LEASE_SECONDS = 15 * 60;
+
+// Reservations a file allows beyond its download limit, for retrying after a failed decryption.
+// Each one hands out the ciphertext, so released and lapsed leases still count against this.
+const RESERVATION_RETRY_BUDGET = 3;
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
 serve(async (req) => {
   // Handle CORS preflight request
   if (req.method === 'OPTIONS') {
@@ -14,10 +30,15 @@ serve(async (req) => {
   }
 
   try {
-    const { fileId } = await req.json();
+    // Downloads are counted in two phases: 'reserve' holds a download and returns a signed URL,
+    // then 'confirm' consumes it once the file has decrypted, or 'release' gives it back.
+    const { fileId, action = 'reserve', leaseId } = await req.json();
     if (!fileId) {
       throw new Error('Missing fileId parameter');
     }
+    if (action !== 'reserve' && !leaseId) {
+      throw new Error('Missing leaseId parameter');
+    }
 
     // Use the SERVICE_ROLE_KEY for admin-level access to bypass RLS
     const supabaseAdmin = createClient(
@@ -25,31 +46,74 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Atomically increment the download count by calling the database function
-    const { data, error } = await supabaseAdmin.rpc('increment_download_count', { file_id_param: fileId });
+    switch (action) {
+      case 'reserve': {
+        // A scheduled share cannot be downloaded before it opens, whatever the client shows.
+        const { data: file, error: selectError } = await supabaseAdmin
+          .from('files')
+          .select('available_from')
+          .eq('id', fileId)
+          .maybeSingle();
 
-    if (error) {
-      console.error('RPC Error:', error);
-      throw new Error('Failed to increment download count or file has expired.');
-    }
-    
-    if (data === false) {
-        return new Response(JSON.stringify({ error: 'File has reached its download limit or expired.' }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 403,
+        if (selectError) {
+          console.error('Select Error:', selectError);
+          throw new Error('Failed to look up the file.');
+        }
+
+        if (file?.available_from && new Date(file.available_from).getTime() > Date.now()) {
+          return json({ error: `This file is not available until ${file.available_from}.` }, 403);
+        }
+
+        // Atomically reserve a download by calling the database function
+        const { data: lease, error } = await supabaseAdmin.rpc('reserve_download', {
+          file_id_param: fileId,
+          lease_seconds: LEASE_SECONDS,
+          retry_budget: RESERVATION_RETRY_BUDGET,
         });
-    }
 
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+        if (error) {
+          console.error('RPC Error:', error);
+          throw new Error('Failed to reserve a download or file has expired.');
+        }
 
+        if (!lease) {
+          return json({ error: 'File has reached its download limit or expired.' }, 403);
+        }
+
+        // The bucket is private, so this URL is the only way to read the ciphertext, and it is
+        // only handed out to a caller holding a reservation.
+        const { data: signed, error: signError } = await supabaseAdmin.storage
+          .from('files')
+          .createSignedUrl(fileId, SIGNED_URL_EXPIRES_IN_SECONDS);
+
+        if (signError) {
+          console.error('Storage Error:', signError);
+          await supabaseAdmin.rpc('release_download', { file_id_param: fileId, lease_id_param: lease });
+          throw new Error('Failed to prepare the file for download.');
+        }
+
+        return json({ success: true, leaseId: lease, leaseSeconds: LEASE_SECONDS, signedUrl: signed.signedUrl });
+      }
+
+      case 'confirm':
+      case 'release': {
+        // The lease must belong to this file, so one file's lease cannot confirm a download of another.
+        const { data, error } = await supabaseAdmin.rpc(`${action}_download`, { file_id_param: fileId, lease_id_param: leaseId });
+
+        if (error) {
+          console.error('RPC Error:', error);
+          throw new Error(`Failed to ${action} the download.`);
+        }
+
+        // false means the lease had already lapsed and been cleared, or was never this file's; there is nothing left to do.
+        return json({ success: data === true });
+      }
+
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
   } catch (error) {
     console.error('Server Error:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    });
+    return json({ error: error.message }, 400);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,136 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { serve } from 'https://deno.land/std@0.190.0/http/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Hashes the token the same way the client did before storing it (hashManagementToken in crypto.ts).
+async function hashToken(token) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares two hex digests without returning early on the first mismatch.
+function digestsMatch(a, b) {
+  if (typeof a !== 'string' || typeof b !== 'string' || a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const shareStatus = (file) => ({
+  created_at: file.created_at,
+  available_from: file.available_from,
+  expires_at: file.expires_at,
+  max_downloads: file.max_downloads,
+  download_count: file.download_count,
+  size_bucket: file.size_bucket,
+});
+
+serve(async (req) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { fileId, token, action, max_downloads, expires_at } = await req.json();
+    if (!fileId || !token || !action) {
+      throw new Error('Missing fileId, token or action parameter');
+    }
+
+    // Use the SERVICE_ROLE_KEY for admin-level access to bypass RLS
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: file, error: selectError } = await supabaseAdmin
+      .from('files')
+      .select('id, manage_token_hash, created_at, available_from, expires_at, max_downloads, download_count, size_bucket')
+      .eq('id', fileId)
+      .maybeSingle();
+
+    if (selectError) {
+      console.error('Select Error:', selectError);
+      throw new Error('Failed to look up the share.');
+    }
+
+    // Unknown shares and wrong tokens get the same answer, so the endpoint cannot be used to probe file IDs.
+    if (!file || !digestsMatch(file.manage_token_hash, await hashToken(token))) {
+      return json({ error: 'This share does not exist or the management link is invalid.' }, 403);
+    }
+
+    switch (action) {
+      case 'status':
+        return json(shareStatus(file));
+
+      case 'revoke': {
+        // Expiring the row stops new downloads at once but keeps the ciphertext; 'delete' removes both.
+        // A scheduled release is dropped too, since a share must open before it expires.
+        const { data, error } = await supabaseAdmin
+          .from('files')
+          .update({ expires_at: new Date().toISOString(), available_from: null })
+          .eq('id', fileId)
+          .select('created_at, available_from, expires_at, max_downloads, download_count, size_bucket')
+          .single();
+        if (error) throw new Error(`Failed to revoke the share: ${error.message}`);
+        return json(shareStatus(data));
+      }
+
+      case 'delete': {
+        const { error: storageError } = await supabaseAdmin.storage.from('files').remove([fileId]);
+        if (storageError) throw new Error(`Failed to delete the file: ${storageError.message}`);
+        const { error } = await supabaseAdmin.from('files').delete().eq('id', fileId);
+        if (error) throw new Error(`Failed to delete the share: ${error.message}`);
+        return json({ deleted: true });
+      }
+
+      case 'update': {
+        // The share policy's upper limits are enforced by the database, which reports a change that exceeds them.
+        const changes = {};
+        if (max_downloads !== undefined) {
+          if (max_downloads !== null && (!Number.isInteger(max_downloads) || max_downloads < 1)) {
+            throw new Error('max_downloads must be a whole number of at least 1, or null for unlimited.');
+          }
+          changes.max_downloads = max_downloads;
+        }
+        if (expires_at !== undefined) {
+          const expiresAt = new Date(expires_at);
+          if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+            throw new Error('expires_at must be a date in the future.');
+          }
+          changes.expires_at = expiresAt.toISOString();
+        }
+        if (Object.keys(changes).length === 0) {
+          throw new Error('Nothing to update.');
+        }
+        const { data, error } = await supabaseAdmin
+          .from('files')
+          .update(changes)
+          .eq('id', fileId)
+          .select('created_at, available_from, expires_at, max_downloads, download_count, size_bucket')
+          .single();
+        if (error) throw new Error(`Failed to update the share: ${error.message}`);
+        return json(shareStatus(data));
+      }
+
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
+  } catch (error) {
+    console.error('Server Error:', error);
+    return json({ error: error.message }, 400);
+  }
+});
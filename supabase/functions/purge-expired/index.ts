@@ -0,0 +1,132 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { serve } from 'https://deno.land/std@0.190.0/http/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 1000;
+// Caps the work done by one invocation; whatever is left is picked up by the next scheduled run.
+const DEFAULT_MAX_BATCHES = 10;
+// Uploaded objects with no files row are removed once the uploader's browser has stopped offering to publish them.
+const ORPHAN_AGE_SECONDS = 24 * 60 * 60;
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const describe = (file) => ({
+  id: file.id,
+  expires_at: file.expires_at,
+  download_count: file.download_count,
+  max_downloads: file.max_downloads,
+});
+
+serve(async (req) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  // Only the scheduler (or an operator) holding the service role key may purge.
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+    const batchSize = Math.min(Math.max(Number(body.batchSize) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+    const maxBatches = Math.max(Number(body.maxBatches) || DEFAULT_MAX_BATCHES, 1);
+
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const purged = [];
+    let batches = 0;
+
+    while (batches < maxBatches) {
+      // A dry run deletes nothing, so it pages through the candidates instead of re-reading the first batch.
+      const { data: files, error } = await supabaseAdmin.rpc('purgeable_files', {
+        batch_size: batchSize,
+        batch_offset: dryRun ? batches * batchSize : 0,
+      });
+      if (error) {
+        console.error('RPC Error:', error);
+        throw new Error('Failed to list expired files.');
+      }
+      if (!files || files.length === 0) break;
+      batches++;
+
+      const ids = files.map((file) => file.id);
+
+      if (dryRun) {
+        console.log(`[dry run] Would purge ${ids.length} file(s):`, ids.join(', '));
+        purged.push(...files.map(describe));
+      } else {
+        // Remove the ciphertext first: a row without an object is harmless, an orphaned object is not.
+        // Objects that are already gone are not an error.
+        const { error: storageError } = await supabaseAdmin.storage.from('files').remove(ids);
+        if (storageError) {
+          console.error('Storage Error:', storageError);
+          throw new Error(`Failed to delete storage objects: ${storageError.message}`);
+        }
+
+        const { error: deleteError } = await supabaseAdmin.from('files').delete().in('id', ids);
+        if (deleteError) {
+          console.error('Delete Error:', deleteError);
+          throw new Error(`Failed to delete file rows: ${deleteError.message}`);
+        }
+
+        console.log(`Purged ${ids.length} file(s):`, ids.join(', '));
+        purged.push(...files.map(describe));
+      }
+
+      if (files.length < batchSize) break;
+    }
+
+    const orphans = [];
+    let orphanBatches = 0;
+
+    while (orphanBatches < maxBatches) {
+      const { data: objects, error } = await supabaseAdmin.rpc('orphaned_objects', {
+        older_than_seconds: ORPHAN_AGE_SECONDS,
+        batch_size: batchSize,
+        batch_offset: dryRun ? orphanBatches * batchSize : 0,
+      });
+      if (error) {
+        console.error('RPC Error:', error);
+        throw new Error('Failed to list orphaned objects.');
+      }
+      if (!objects || objects.length === 0) break;
+      orphanBatches++;
+
+      const names = objects.map((object) => object.name);
+
+      if (dryRun) {
+        console.log(`[dry run] Would remove ${names.length} orphaned object(s):`, names.join(', '));
+      } else {
+        const { error: storageError } = await supabaseAdmin.storage.from('files').remove(names);
+        if (storageError) {
+          console.error('Storage Error:', storageError);
+          throw new Error(`Failed to delete orphaned objects: ${storageError.message}`);
+        }
+        console.log(`Removed ${names.length} orphaned object(s):`, names.join(', '));
+      }
+      orphans.push(...objects);
+
+      if (objects.length < batchSize) break;
+    }
+
+    return json({ dryRun, batches, count: purged.length, files: purged, orphans });
+  } catch (error) {
+    console.error('Server Error:', error);
+    return json({ error: error.message }, 500);
+  }
+});
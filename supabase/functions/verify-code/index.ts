@@ -0,0 +1,177 @@
+// @ts-nocheck
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { serve } from 'https://deno.land/std@0.190.0/http/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Wrong codes a file accepts before it is locked for good.
+const MAX_FAILED_ATTEMPTS = 5;
+// Wrong codes a single IP may submit, across all files, within the window below.
+const MAX_FAILED_ATTEMPTS_PER_IP = 20;
+const IP_WINDOW_MINUTES = 60;
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+async function sha256Hex(value) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares two hex digests without returning early on the first mismatch.
+function digestsMatch(a, b) {
+  if (typeof a !== 'string' || typeof b !== 'string' || a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const isHex = (value, bytes) => typeof value === 'string' && new RegExp(`^[0-9a-f]{${bytes * 2}}$`, 'i').test(value);
+
+// The client can send its own x-forwarded-for, so only the last entry, appended by the platform's proxy, is trusted.
+const clientIp = (req) =>
+  req.headers.get('x-forwarded-for')?.split(',').pop().trim() || 'unknown';
+
+serve(async (req) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { fileId, action, verifier, serverShare, token } = await req.json();
+    if (!fileId || !action || !isHex(verifier, 32)) {
+      throw new Error('Missing fileId, action or verifier parameter');
+    }
+
+    // Use the SERVICE_ROLE_KEY for admin-level access to bypass RLS
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    switch (action) {
+      case 'enroll': {
+        // Only the sender, who holds the management token, may register the verifier and share.
+        if (!token || !isHex(serverShare, 32)) {
+          throw new Error('Missing token or serverShare parameter');
+        }
+        const { data: file, error: selectError } = await supabaseAdmin
+          .from('files')
+          .select('id, manage_token_hash, server_assisted')
+          .eq('id', fileId)
+          .maybeSingle();
+        if (selectError) throw new Error('Failed to look up the share.');
+        if (!file || !file.server_assisted || !digestsMatch(file.manage_token_hash, await sha256Hex(token))) {
+          return json({ error: 'This share does not exist or cannot be enrolled.' }, 403);
+        }
+
+        // The primary key makes enrollment one-shot: a second attempt cannot replace the share.
+        const { error: insertError } = await supabaseAdmin.from('code_verifiers').insert({
+          file_id: fileId,
+          verifier_hash: await sha256Hex(verifier.toLowerCase()),
+          server_share: serverShare.toLowerCase(),
+        });
+        if (insertError) {
+          console.error('Insert Error:', insertError);
+          throw new Error('This share is already enrolled.');
+        }
+        return json({ success: true });
+      }
+
+      case 'verify': {
+        // The share is only released for a file that could be downloaded right now, as in increment-download-count.
+        const { data: file, error: fileError } = await supabaseAdmin
+          .from('files')
+          .select('expires_at, available_from')
+          .eq('id', fileId)
+          .maybeSingle();
+        if (fileError) throw new Error('Failed to look up the share.');
+        if (!file || new Date(file.expires_at).getTime() <= Date.now()) {
+          return json({ error: 'This link has expired or was never fully set up.' }, 404);
+        }
+        if (file.available_from && new Date(file.available_from).getTime() > Date.now()) {
+          return json({ error: `This file is not available until ${file.available_from}.` }, 403);
+        }
+
+        const ip = clientIp(req);
+
+        // Claim one of this IP's tries first too; only a wrong code keeps it.
+        const { data: ipAttempt, error: ipError } = await supabaseAdmin.rpc('claim_ip_attempt', {
+          ip_param: ip,
+          window_seconds: IP_WINDOW_MINUTES * 60,
+          max_failures: MAX_FAILED_ATTEMPTS_PER_IP,
+        });
+        if (ipError) {
+          console.error('RPC Error:', ipError);
+          throw new Error('Failed to check attempt limits.');
+        }
+        if (ipAttempt === null) {
+          return json({ error: 'Too many incorrect codes from this network. Please try again later.' }, 429);
+        }
+        const releaseIpAttempt = async () => {
+          const { error } = await supabaseAdmin.from('code_attempts').delete().eq('id', ipAttempt);
+          if (error) console.error('Delete Error:', error);
+        };
+
+        // Claim a try before comparing, so parallel requests cannot all slip past the lock.
+        const { data: claimed, error: claimError } = await supabaseAdmin.rpc('claim_code_attempt', {
+          file_id_param: fileId,
+          max_failures: MAX_FAILED_ATTEMPTS,
+        });
+        if (claimError) {
+          console.error('RPC Error:', claimError);
+          await releaseIpAttempt();
+          throw new Error('Failed to record the attempt.');
+        }
+        const entry = claimed?.[0];
+        if (!entry) {
+          await releaseIpAttempt();
+          const { data: existing, error: selectError } = await supabaseAdmin
+            .from('code_verifiers')
+            .select('file_id')
+            .eq('file_id', fileId)
+            .maybeSingle();
+          if (selectError) throw new Error('Failed to look up the share.');
+          return existing
+            ? json({ error: 'This file has been locked after too many incorrect codes.', remainingAttempts: 0 }, 423)
+            : json({ error: 'This link has expired or was never fully set up.' }, 404);
+        }
+
+        if (digestsMatch(entry.verifier_hash, await sha256Hex(verifier.toLowerCase()))) {
+          // A correct code does not use up a try.
+          const { error: undoError } = await supabaseAdmin.rpc('undo_code_attempt', {
+            file_id_param: fileId,
+            max_failures: MAX_FAILED_ATTEMPTS,
+          });
+          if (undoError) console.error('RPC Error:', undoError);
+          await releaseIpAttempt();
+          return json({ serverShare: entry.server_share, remainingAttempts: MAX_FAILED_ATTEMPTS - (entry.failed_attempts - 1) });
+        }
+
+        const remainingAttempts = Math.max(MAX_FAILED_ATTEMPTS - entry.failed_attempts, 0);
+        console.log(`Incorrect code for ${fileId} from ${ip}; ${remainingAttempts} attempt(s) left.`);
+        return json(
+          remainingAttempts > 0
+            ? { error: 'Incorrect download code.', remainingAttempts }
+            : { error: 'This file has been locked after too many incorrect codes.', remainingAttempts: 0 },
+          remainingAttempts > 0 ? 403 : 423
+        );
+      }
+
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
+  } catch (error) {
+    console.error('Server Error:', error);
+    return json({ error: error.message }, 400);
+  }
+});
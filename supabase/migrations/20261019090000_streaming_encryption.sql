@@ -0,0 +1,4 @@
+-- Segment size of the AES-GCM-STREAM format. Rows written before it existed
+-- use the single-shot AES-GCM format and leave this column empty.
+alter table public.files
+  add column if not exists chunk_size integer;
@@ -0,0 +1,4 @@
+-- Envelope format version written by the client. Rows from before versioning
+-- leave it empty and are read as version 1.
+alter table public.files
+  add column if not exists version smallint;
@@ -0,0 +1,11 @@
+-- Version 3 envelopes keep the filename, MIME type and exact size inside
+-- encrypted_metadata. Only a power-of-two size bucket stays in plaintext.
+alter table public.files
+  add column if not exists encrypted_metadata text,
+  add column if not exists metadata_iv text,
+  add column if not exists size_bucket bigint;
+
+alter table public.files
+  alter column filename drop not null,
+  alter column mime_type drop not null,
+  alter column size drop not null;
@@ -0,0 +1,3 @@
+-- Padding scheme applied to the plaintext before encryption.
+alter table public.files
+  add column if not exists padding text;
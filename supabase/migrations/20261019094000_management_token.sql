@@ -0,0 +1,5 @@
+-- SHA-256 hash of the sender's management token. The token itself only exists
+-- in the sender's manage link; the manage-share function hashes what it is given
+-- and compares. Rows from before this column existed cannot be managed.
+alter table public.files
+  add column if not exists manage_token_hash text;
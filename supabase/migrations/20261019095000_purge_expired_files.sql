@@ -0,0 +1,22 @@
+-- Lists shares that can no longer be downloaded: past their expiry or out of
+-- downloads. Used by the purge-expired function, which deletes the storage
+-- object and the row for each one. Oldest expiries come first so a backlog
+-- drains in a stable order across batches.
+create or replace function public.purgeable_files(batch_size integer, batch_offset integer default 0)
+returns setof public.files
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select f.*
+  from public.files f
+  where f.expires_at <= now()
+     or f.download_count >= f.max_downloads
+  order by f.expires_at
+  limit batch_size
+  offset batch_offset;
+$$;
+
+revoke all on function public.purgeable_files(integer, integer) from public, anon, authenticated;
+grant execute on function public.purgeable_files(integer, integer) to service_role;
@@ -0,0 +1,27 @@
+-- Ciphertext is only served through short-lived signed URLs issued by the
+-- increment-download-count function after it has counted a download. Make the
+-- bucket private and drop any policy that lets anonymous clients read objects
+-- from it, so the download limit cannot be bypassed with a direct fetch.
+-- Upload (insert) and cancel (delete) policies are left in place; a policy
+-- granting ALL commands to anon has to be split by hand.
+update storage.buckets
+  set public = false
+  where id = 'files';
+
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname
+    from pg_policies
+    where schemaname = 'storage'
+      and tablename = 'objects'
+      and cmd = 'SELECT'
+      and roles && array['anon', 'public']::name[]
+      and qual like '%''files''%'
+  loop
+    execute format('drop policy %I on storage.objects', policy.policyname);
+  end loop;
+end
+$$;
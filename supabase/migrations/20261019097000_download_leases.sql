@@ -0,0 +1,96 @@
+-- Two-phase download counting. A download is first reserved with a short
+-- lease, which holds one of the file's remaining downloads while the recipient
+-- fetches and decrypts it. The client then confirms the lease, which consumes
+-- the download, or releases it after a failure. A lease that is never
+-- confirmed or released simply lapses and frees its slot again.
+-- Live leases count against max_downloads, so a client that never confirms can
+-- still only hold as many downloads at a time as the file allows.
+create table if not exists public.download_leases (
+  id uuid primary key default gen_random_uuid(),
+  file_id uuid not null references public.files (id) on delete cascade,
+  expires_at timestamptz not null
+);
+
+create index if not exists download_leases_file_id_idx
+  on public.download_leases (file_id);
+
+-- Only the edge function (service role) touches leases.
+alter table public.download_leases enable row level security;
+
+-- Reserves one download. Returns the lease id, or null if the file is expired
+-- or every remaining download is already consumed or held by a live lease.
+create or replace function public.reserve_download(file_id_param uuid, lease_seconds integer)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.files%rowtype;
+  held integer;
+  lease_id uuid;
+begin
+  -- Lock the row so concurrent reservations are counted one at a time.
+  select * into target from public.files where id = file_id_param for update;
+  if not found or target.expires_at <= now() then
+    return null;
+  end if;
+
+  delete from public.download_leases
+    where file_id = file_id_param and expires_at <= now();
+
+  select count(*) into held from public.download_leases where file_id = file_id_param;
+  if target.download_count + held >= target.max_downloads then
+    return null;
+  end if;
+
+  insert into public.download_leases (file_id, expires_at)
+    values (file_id_param, now() + make_interval(secs => lease_seconds))
+    returning id into lease_id;
+  return lease_id;
+end;
+$$;
+
+-- Consumes the download held by a lease. A lease that has lapsed is still
+-- honoured as long as no later reservation has cleared it.
+create or replace function public.confirm_download(lease_id_param uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  leased_file uuid;
+begin
+  delete from public.download_leases where id = lease_id_param
+    returning file_id into leased_file;
+  if leased_file is null then
+    return false;
+  end if;
+
+  update public.files
+    set download_count = download_count + 1
+    where id = leased_file;
+  return true;
+end;
+$$;
+
+-- Gives a reserved download back without consuming it.
+create or replace function public.release_download(lease_id_param uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with released as (
+    delete from public.download_leases where id = lease_id_param returning id
+  )
+  select exists (select 1 from released);
+$$;
+
+revoke all on function public.reserve_download(uuid, integer) from public, anon, authenticated;
+revoke all on function public.confirm_download(uuid) from public, anon, authenticated;
+revoke all on function public.release_download(uuid) from public, anon, authenticated;
+grant execute on function public.reserve_download(uuid, integer) to service_role;
+grant execute on function public.confirm_download(uuid) to service_role;
+grant execute on function public.release_download(uuid) to service_role;
@@ -0,0 +1,54 @@
+-- Server-assisted code verification. For these files the
+-- KEK mixes in a secret share that only the verify-code function hands out,
+-- after checking a verifier derived from the code. Guessing the code therefore
+-- needs one request per guess, which the function limits per file and per IP.
+alter table public.files
+  add column if not exists server_assisted boolean not null default false;
+
+-- One row per server-assisted file. Never exposed to clients: RLS is enabled
+-- without policies, so only the service role can read it.
+create table if not exists public.code_verifiers (
+  file_id uuid primary key references public.files (id) on delete cascade,
+  verifier_hash text not null,
+  server_share text not null,
+  failed_attempts integer not null default 0,
+  locked_at timestamptz
+);
+
+alter table public.code_verifiers enable row level security;
+
+-- Failed attempts by client IP, for the per-IP limit. Old rows are pruned by
+-- the verify-code function.
+create table if not exists public.code_attempts (
+  id bigint generated always as identity primary key,
+  ip text not null,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists code_attempts_ip_idx
+  on public.code_attempts (ip, attempted_at);
+
+alter table public.code_attempts enable row level security;
+
+-- Counts a failed attempt against a file and locks it once max_failures is
+-- reached. Returns the number of attempts left.
+create or replace function public.record_code_failure(file_id_param uuid, max_failures integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  failures integer;
+begin
+  update public.code_verifiers
+    set failed_attempts = failed_attempts + 1,
+        locked_at = case when failed_attempts + 1 >= max_failures then now() else locked_at end
+    where file_id = file_id_param
+    returning failed_attempts into failures;
+  return greatest(max_failures - coalesce(failures, max_failures), 0);
+end;
+$$;
+
+revoke all on function public.record_code_failure(uuid, integer) from public, anon, authenticated;
+grant execute on function public.record_code_failure(uuid, integer) to service_role;
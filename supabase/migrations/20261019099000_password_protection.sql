@@ -0,0 +1,4 @@
+-- Whether the sender combined an extra password with the download code.
+-- The password itself never leaves the browser.
+alter table public.files
+  add column if not exists password_protected boolean not null default false;
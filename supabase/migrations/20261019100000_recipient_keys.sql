@@ -0,0 +1,12 @@
+-- Version 7 envelopes can wrap the file key to recipients' ECDH public keys.
+-- Each entry holds the recipient's key ID, the sender's one-time public key and
+-- the wrapped file key. A file shared only with recipients has no code wrap,
+-- so those columns become optional.
+alter table public.files
+  add column if not exists recipients jsonb;
+
+alter table public.files
+  alter column salt drop not null,
+  alter column kdf_params drop not null,
+  alter column wrapped_file_key drop not null,
+  alter column wrap_iv drop not null;
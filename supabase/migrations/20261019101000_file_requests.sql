@@ -0,0 +1,83 @@
+-- Inbound file requests. A requester creates a request and shares a link that
+-- carries a fresh public key in its URL fragment; uploaders encrypt to that key
+-- and the requester opens the files with the private key kept in their browser.
+-- The server never sees the key, only the request's limits.
+create table if not exists public.file_requests (
+  id uuid primary key,
+  manage_token_hash text not null,
+  expires_at timestamptz not null,
+  max_uploads integer not null check (max_uploads between 1 and 20),
+  upload_count integer not null default 0
+);
+
+alter table public.file_requests enable row level security;
+
+-- Anyone may open a request, but not one that starts used or outlives 30 days.
+-- Reads and updates go through the functions below and the file-requests edge
+-- function, so there are no other policies.
+create policy "Anyone can create file requests"
+  on public.file_requests
+  for insert
+  to anon, authenticated
+  with check (
+    upload_count = 0
+    and expires_at > now()
+    and expires_at <= now() + interval '30 days'
+  );
+
+alter table public.files
+  add column if not exists request_id uuid references public.file_requests (id) on delete set null;
+
+create index if not exists files_request_id_idx
+  on public.files (request_id);
+
+-- Counts an upload against its request and rejects it once the request is
+-- expired or full. Files sent to a request get a fixed lifetime and download
+-- limit, whatever the uploader's client asked for.
+create or replace function public.claim_request_upload()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.file_requests%rowtype;
+begin
+  if new.request_id is null then
+    return new;
+  end if;
+
+  -- Lock the row so concurrent uploads are counted one at a time.
+  select * into target from public.file_requests where id = new.request_id for update;
+  if not found or target.expires_at <= now() or target.upload_count >= target.max_uploads then
+    raise exception 'This file request is closed or has already received all the files it accepts.';
+  end if;
+
+  update public.file_requests
+    set upload_count = upload_count + 1
+    where id = new.request_id;
+
+  new.expires_at := now() + interval '7 days';
+  new.max_downloads := 3;
+  return new;
+end;
+$$;
+
+drop trigger if exists files_claim_request_upload on public.files;
+create trigger files_claim_request_upload
+  before insert on public.files
+  for each row execute function public.claim_request_upload();
+
+-- Lets an uploader check a request before encrypting anything. Returns no row
+-- for unknown requests.
+create or replace function public.file_request_status(request_id_param uuid)
+returns table (expires_at timestamptz, remaining_uploads integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.expires_at, greatest(r.max_uploads - r.upload_count, 0)
+  from public.file_requests r
+  where r.id = request_id_param;
+$$;
@@ -0,0 +1,5 @@
+-- Optional sender signature: the sender's ECDSA public
+-- key, the SHA-256 of the uploaded ciphertext and a signature over both and the
+-- encrypted file details. Recipients check it in the browser.
+alter table public.files
+  add column if not exists signature jsonb;
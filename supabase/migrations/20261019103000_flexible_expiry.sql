@@ -0,0 +1,86 @@
+-- Longer, configurable retention. How long a share may be kept and how often
+-- it may be downloaded are set in a single-row policy table, so an operator can
+-- change them without a deploy, and every insert or update of a share is held
+-- to them here rather than trusted from the client.
+create table if not exists public.share_policy (
+  id boolean primary key default true check (id),
+  max_retention interval not null default interval '30 days',
+  max_downloads integer not null default 100 check (max_downloads >= 1),
+  allow_unlimited_downloads boolean not null default true
+);
+
+insert into public.share_policy (id) values (true) on conflict (id) do nothing;
+
+-- Read through get_share_policy below; changed only with the service role.
+alter table public.share_policy enable row level security;
+
+-- Retention is measured from upload, so extending a share through its manage
+-- link cannot keep it past the policy either. Rows from before this column
+-- existed count from the migration.
+alter table public.files
+  add column if not exists created_at timestamptz not null default now();
+
+-- A null download limit means the share can be downloaded until it expires.
+-- reserve_download and purgeable_files already treat a null limit as never reached.
+alter table public.files
+  alter column max_downloads drop not null;
+
+create or replace function public.enforce_share_policy()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  policy public.share_policy%rowtype;
+begin
+  select * into policy from public.share_policy where id;
+
+  -- The upload time is the server's, whatever the client sent.
+  if tg_op = 'INSERT' then
+    new.created_at := now();
+    if new.expires_at <= now() then
+      raise exception 'A share cannot be created already expired.';
+    end if;
+  else
+    new.created_at := old.created_at;
+  end if;
+
+  if new.expires_at > new.created_at + policy.max_retention then
+    raise exception 'Shares can be kept for at most % after upload.', policy.max_retention;
+  end if;
+
+  if new.max_downloads is null then
+    if not policy.allow_unlimited_downloads then
+      raise exception 'Shares must have a download limit.';
+    end if;
+  elsif new.max_downloads < 1 or new.max_downloads > policy.max_downloads then
+    raise exception 'The download limit must be between 1 and %.', policy.max_downloads;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Only the columns the policy covers, so counting downloads never trips over a
+-- share that predates a tightened policy. Named to run after
+-- files_claim_request_upload, which sets the limits of request uploads.
+drop trigger if exists files_enforce_share_policy on public.files;
+create trigger files_enforce_share_policy
+  before insert or update of expires_at, max_downloads on public.files
+  for each row execute function public.enforce_share_policy();
+
+-- Lets the upload and manage pages offer only choices the policy allows.
+create or replace function public.get_share_policy()
+returns table (max_retention_seconds integer, max_downloads integer, allow_unlimited_downloads boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select extract(epoch from p.max_retention)::integer, p.max_downloads, p.allow_unlimited_downloads
+  from public.share_policy p
+  where p.id;
+$$;
+
+grant execute on function public.get_share_policy() to anon, authenticated;
@@ -0,0 +1,38 @@
+-- Scheduled releases. A share with available_from set exists from upload, but
+-- its link stays unusable until then: recipients cannot read its envelope, and
+-- the increment-download-count function refuses to reserve a download.
+alter table public.files
+  add column if not exists available_from timestamptz;
+
+alter table public.files
+  drop constraint if exists files_available_before_expiry;
+alter table public.files
+  add constraint files_available_before_expiry
+  check (available_from is null or available_from < expires_at);
+
+-- Restrictive, so it narrows whatever select policy already lets recipients
+-- read a share rather than widening it.
+drop policy if exists "Files are hidden until they are available" on public.files;
+create policy "Files are hidden until they are available"
+  on public.files
+  as restrictive
+  for select
+  to anon, authenticated
+  using (available_from is null or available_from <= now());
+
+-- Lets the download page tell a share that is not open yet from one that does
+-- not exist or is used up, and count down to it. Returns a row only for a
+-- share that has yet to open, and nothing about it beyond the time it opens.
+create or replace function public.file_availability(file_id_param uuid)
+returns table (available_from timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select f.available_from
+  from public.files f
+  where f.id = file_id_param and f.available_from > now() and f.expires_at > now();
+$$;
+
+grant execute on function public.file_availability(uuid) to anon, authenticated;
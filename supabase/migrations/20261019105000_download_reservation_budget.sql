@@ -0,0 +1,56 @@
+-- Caps how often a file's ciphertext is handed out. Every reservation issues a
+-- signed URL, so a released or lapsed lease must not give back the right to
+-- fetch the file again for free: reserving, fetching and releasing in a loop
+-- would otherwise ignore max_downloads entirely. Each file now allows
+-- max_downloads reservations plus a small budget for retries after failed
+-- decryptions. Files without a download limit have no cap.
+alter table public.files
+  add column if not exists reservation_count integer not null default 0;
+
+drop function if exists public.reserve_download(uuid, integer);
+
+-- Reserves one download. Returns the lease id, or null if the file is expired,
+-- every remaining download is consumed or held by a live lease, or the file has
+-- used up its reservations.
+create or replace function public.reserve_download(file_id_param uuid, lease_seconds integer, retry_budget integer)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.files%rowtype;
+  held integer;
+  lease_id uuid;
+begin
+  -- Lock the row so concurrent reservations are counted one at a time.
+  select * into target from public.files where id = file_id_param for update;
+  if not found or target.expires_at <= now() then
+    return null;
+  end if;
+
+  if target.reservation_count >= target.max_downloads + retry_budget then
+    return null;
+  end if;
+
+  delete from public.download_leases
+    where file_id = file_id_param and expires_at <= now();
+
+  select count(*) into held from public.download_leases where file_id = file_id_param;
+  if target.download_count + held >= target.max_downloads then
+    return null;
+  end if;
+
+  update public.files
+    set reservation_count = reservation_count + 1
+    where id = file_id_param;
+
+  insert into public.download_leases (file_id, expires_at)
+    values (file_id_param, now() + make_interval(secs => lease_seconds))
+    returning id into lease_id;
+  return lease_id;
+end;
+$$;
+
+revoke all on function public.reserve_download(uuid, integer, integer) from public, anon, authenticated;
+grant execute on function public.reserve_download(uuid, integer, integer) to service_role;
@@ -0,0 +1,41 @@
+-- Counts an attempt at a server-assisted code before the code is checked, not
+-- after. Checking the lock first and recording a failure later let parallel
+-- requests all pass the check, so a file accepted far more guesses than its
+-- limit. Each attempt now claims one of the file's tries in a single update,
+-- which also locks the file on the last one, and a correct code gives its try
+-- back afterwards.
+drop function if exists public.record_code_failure(uuid, integer);
+
+-- Claims one try. Returns the verifier and share to compare against, with the
+-- tries used so far, or no row if the file is unknown or already locked.
+create or replace function public.claim_code_attempt(file_id_param uuid, max_failures integer)
+returns table (verifier_hash text, server_share text, failed_attempts integer)
+language sql
+security definer
+set search_path = public
+as $$
+  update public.code_verifiers
+    set failed_attempts = failed_attempts + 1,
+        locked_at = case when failed_attempts + 1 >= max_failures then now() else locked_at end
+    where file_id = file_id_param and locked_at is null
+    returning verifier_hash, server_share, failed_attempts;
+$$;
+
+-- Gives back the try claimed by a correct code, unlocking the file if that
+-- try was the one that locked it.
+create or replace function public.undo_code_attempt(file_id_param uuid, max_failures integer)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.code_verifiers
+    set failed_attempts = greatest(failed_attempts - 1, 0),
+        locked_at = case when failed_attempts - 1 < max_failures then null else locked_at end
+    where file_id = file_id_param;
+$$;
+
+revoke all on function public.claim_code_attempt(uuid, integer) from public, anon, authenticated;
+revoke all on function public.undo_code_attempt(uuid, integer) from public, anon, authenticated;
+grant execute on function public.claim_code_attempt(uuid, integer) to service_role;
+grant execute on function public.undo_code_attempt(uuid, integer) to service_role;
@@ -0,0 +1,38 @@
+-- Files sent to a file request took a fixed 7 days and 3 downloads, which an
+-- operator who tightened share_policy below either would see rejected by
+-- files_enforce_share_policy. They now keep those defaults only as far as the
+-- policy allows.
+create or replace function public.claim_request_upload()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.file_requests%rowtype;
+  policy public.share_policy%rowtype;
+begin
+  if new.request_id is null then
+    return new;
+  end if;
+
+  -- Lock the row so concurrent uploads are counted one at a time.
+  select * into target from public.file_requests where id = new.request_id for update;
+  if not found or target.expires_at <= now() or target.upload_count >= target.max_uploads then
+    raise exception 'This file request is closed or has already received all the files it accepts.';
+  end if;
+
+  update public.file_requests
+    set upload_count = upload_count + 1
+    where id = new.request_id;
+
+  select * into policy from public.share_policy where id;
+  new.expires_at := now() + least(interval '7 days', policy.max_retention);
+  new.max_downloads := least(3, policy.max_downloads);
+  return new;
+end;
+$$;
+
+-- Granted explicitly, like get_share_policy, rather than relying on the
+-- default privileges of the public schema.
+grant execute on function public.file_request_status(uuid) to anon, authenticated;
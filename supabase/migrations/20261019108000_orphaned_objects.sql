@@ -0,0 +1,24 @@
+-- Lists ciphertext that was uploaded but never published: storage objects in
+-- the files bucket with no files row. They are left behind when the page
+-- closes between the upload and the insert, and the browser only keeps such an
+-- upload for resuming for a day. Used by the purge-expired function, which
+-- deletes each one through the storage API.
+create or replace function public.orphaned_objects(older_than_seconds integer, batch_size integer, batch_offset integer default 0)
+returns table (name text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select o.name, o.created_at
+  from storage.objects o
+  where o.bucket_id = 'files'
+    and o.created_at <= now() - make_interval(secs => older_than_seconds)
+    and not exists (select 1 from public.files f where f.id::text = o.name)
+  order by o.created_at
+  limit batch_size
+  offset batch_offset;
+$$;
+
+revoke all on function public.orphaned_objects(integer, integer, integer) from public, anon, authenticated;
+grant execute on function public.orphaned_objects(integer, integer, integer) to service_role;
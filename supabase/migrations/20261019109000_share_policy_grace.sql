@@ -0,0 +1,41 @@
+-- A lifetime is turned into an expiry by the uploader's browser just before
+-- the insert, and the server's clock counts retention from the insert itself.
+-- A share given the full retention could end a moment past the limit, more so
+-- if the browser's clock runs slightly ahead, and be refused. Retention is
+-- now checked with a minute's grace.
+create or replace function public.enforce_share_policy()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  policy public.share_policy%rowtype;
+begin
+  select * into policy from public.share_policy where id;
+
+  -- The upload time is the server's, whatever the client sent.
+  if tg_op = 'INSERT' then
+    new.created_at := now();
+    if new.expires_at <= now() then
+      raise exception 'A share cannot be created already expired.';
+    end if;
+  else
+    new.created_at := old.created_at;
+  end if;
+
+  if new.expires_at > new.created_at + policy.max_retention + interval '1 minute' then
+    raise exception 'Shares can be kept for at most % after upload.', policy.max_retention;
+  end if;
+
+  if new.max_downloads is null then
+    if not policy.allow_unlimited_downloads then
+      raise exception 'Shares must have a download limit.';
+    end if;
+  elsif new.max_downloads < 1 or new.max_downloads > policy.max_downloads then
+    raise exception 'The download limit must be between 1 and %.', policy.max_downloads;
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,50 @@
+-- Confirming or releasing a lease took only its id, so a lease reserved for
+-- one file could be confirmed through a request naming another. Both now take
+-- the file id too and only act on a lease that belongs to it.
+drop function if exists public.confirm_download(uuid);
+drop function if exists public.release_download(uuid);
+
+-- Consumes a reserved download. Returns false if the lease is unknown, belongs
+-- to another file, or has already lapsed and been cleared.
+create or replace function public.confirm_download(file_id_param uuid, lease_id_param uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  leased_file uuid;
+begin
+  delete from public.download_leases
+    where id = lease_id_param and file_id = file_id_param
+    returning file_id into leased_file;
+  if leased_file is null then
+    return false;
+  end if;
+
+  update public.files
+    set download_count = download_count + 1
+    where id = leased_file;
+  return true;
+end;
+$$;
+
+-- Gives a reserved download back without consuming it.
+create or replace function public.release_download(file_id_param uuid, lease_id_param uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with released as (
+    delete from public.download_leases
+      where id = lease_id_param and file_id = file_id_param
+      returning id
+  )
+  select exists (select 1 from released);
+$$;
+
+revoke all on function public.confirm_download(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.release_download(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.confirm_download(uuid, uuid) to service_role;
+grant execute on function public.release_download(uuid, uuid) to service_role;
@@ -0,0 +1,36 @@
+-- Counts an attempt against the client's IP before the code is checked, as
+-- claim_code_attempt does for the file. Counting first and recording a wrong
+-- code afterwards let parallel requests from one IP all pass the count. The
+-- verify-code function deletes the claimed row again unless the code was wrong.
+
+-- Claims one of an IP's tries within the window. Returns the attempt's id, or
+-- null if the IP has used them all.
+create or replace function public.claim_ip_attempt(ip_param text, window_seconds integer, max_failures integer)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  failures integer;
+  attempt_id bigint;
+begin
+  -- Claims for the same IP wait for each other, so each one counts those before it.
+  perform pg_advisory_xact_lock(hashtext('code_attempts:' || ip_param));
+
+  delete from public.code_attempts
+    where attempted_at < now() - make_interval(secs => window_seconds);
+
+  select count(*) into failures from public.code_attempts where ip = ip_param;
+  if failures >= max_failures then
+    return null;
+  end if;
+
+  insert into public.code_attempts (ip) values (ip_param)
+    returning id into attempt_id;
+  return attempt_id;
+end;
+$$;
+
+revoke all on function public.claim_ip_attempt(text, integer, integer) from public, anon, authenticated;
+grant execute on function public.claim_ip_attempt(text, integer, integer) to service_role;
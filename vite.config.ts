@@ -20,4 +20,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The crypto worker lazily imports the Argon2id WASM module, which needs code splitting.
+    format: "es",
+  },
 }));